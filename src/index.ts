@@ -1,6 +1,6 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import nodemailer from 'nodemailer';
 import axios from "axios";
 import dotenv from "dotenv";
@@ -8,6 +8,10 @@ import { Expo } from "expo-server-sdk";
 import { createClient } from '@supabase/supabase-js';
 import { Resend } from "resend";
 import admin from 'firebase-admin';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import sharp from 'sharp';
 
 
 dotenv.config();
@@ -29,8 +33,6 @@ export const supabase = createClient(
   process.env.SUPABASE_KEY!
 );
 const resend = new Resend(process.env.API_SEND_EMAILS);
-// Guardar temporalmente los códigos de recuperación
-const codigosReset = new Map();
 
 
 const expo = new Expo();
@@ -45,7 +47,12 @@ interface OpenAIChatResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: {
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+      }[];
     };
     finish_reason: string;
   }[];
@@ -69,17 +76,493 @@ pool.connect()
 .then(() => console.log("✅ Conexión exitosa a Supabase"))
 .catch((err) => console.error("❌ Error al conectar a Supabase:", err));
 
+// Ejecutar una tarea en una transacción serializada por clave (candados consultivos de Postgres).
+// Los límites de "N por hora" cuentan e insertan aquí para que dos solicitudes no pasen a la vez.
+// Con varias claves se toman siempre en el mismo orden para no bloquearse entre sí
+async function conCandado<T>(claves: string | string[], tarea: (client: PoolClient) => Promise<T>) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const clave of [...new Set([claves].flat())].sort()) {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [clave]);
+    }
+    const resultado = await tarea(client);
+    await client.query('COMMIT');
+    return resultado;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Documento de texto completo de una publicación (debe coincidir con el índice GIN)
+const DOCUMENTO_BUSQUEDA = `to_tsvector('spanish', busqueda_unaccent(coalesce(nombre_articulo, '') || ' ' || coalesce(descripcion, '')))`;
+
+// Crear las tablas auxiliares que usa el backend si todavía no existen
+async function inicializarTablas() {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS codigos_reset (
+      ID_codigo SERIAL PRIMARY KEY,
+      correo TEXT NOT NULL,
+      codigo_hash TEXT NOT NULL,
+      intentos INTEGER NOT NULL DEFAULT 0,
+      usado BOOLEAN NOT NULL DEFAULT false,
+      expira_en TIMESTAMPTZ NOT NULL,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_codigos_reset_correo ON codigos_reset (correo, fecha_creacion DESC);
+
+    CREATE TABLE IF NOT EXISTS solicitudes_reset (
+      ID_solicitud SERIAL PRIMARY KEY,
+      correo TEXT NOT NULL,
+      ip TEXT,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_solicitudes_reset_correo ON solicitudes_reset (correo, fecha);
+    CREATE INDEX IF NOT EXISTS idx_solicitudes_reset_ip ON solicitudes_reset (ip, fecha);
+    -- También se limitan los correos de verificación al cambiar de correo
+    ALTER TABLE solicitudes_reset ADD COLUMN IF NOT EXISTS proposito TEXT NOT NULL DEFAULT 'reset'
+      CHECK (proposito IN ('reset', 'cambio_correo'));
+
+    -- Las cuentas existentes quedan como superadmin para no perder acceso
+    ALTER TABLE usuarioadmin
+      ADD COLUMN IF NOT EXISTS rol TEXT NOT NULL DEFAULT 'superadmin'
+      CHECK (rol IN ('moderador', 'superadmin'));
+
+    CREATE TABLE IF NOT EXISTS auditoria_admin (
+      ID_auditoria SERIAL PRIMARY KEY,
+      admin_usuario TEXT NOT NULL,
+      accion TEXT NOT NULL,
+      tipo_objetivo TEXT,
+      ID_objetivo INTEGER,
+      detalle JSONB,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_auditoria_admin_fecha ON auditoria_admin (fecha DESC);
+
+    CREATE TABLE IF NOT EXISTS tokens_push (
+      ID_token SERIAL PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      token_expo TEXT UNIQUE,
+      token_fcm TEXT UNIQUE,
+      plataforma TEXT,
+      fecha_registro TIMESTAMPTZ NOT NULL DEFAULT now(),
+      CHECK (token_expo IS NOT NULL OR token_fcm IS NOT NULL)
+    );
+    CREATE INDEX IF NOT EXISTS idx_tokens_push_usuario ON tokens_push (ID_usuario);
+
+    CREATE TABLE IF NOT EXISTS tickets_push (
+      ticket_id TEXT PRIMARY KEY,
+      ID_token INTEGER NOT NULL REFERENCES tokens_push(ID_token) ON DELETE CASCADE,
+      fecha_envio TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notificaciones_usuario_fecha
+      ON notificaciones (ID_usuario, fecha_envio DESC, ID_notificacion DESC);
+
+    CREATE TABLE IF NOT EXISTS preferencias_notificacion (
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      tipo TEXT NOT NULL,
+      modo TEXT NOT NULL CHECK (modo IN ('app', 'push', 'email')),
+      PRIMARY KEY (ID_usuario, tipo)
+    );
+
+    CREATE TABLE IF NOT EXISTS configuracion_notificaciones (
+      ID_usuario INTEGER PRIMARY KEY REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      silencio_inicio TIME,
+      silencio_fin TIME,
+      zona_horaria TEXT NOT NULL DEFAULT 'America/Bogota',
+      resumen_interes BOOLEAN NOT NULL DEFAULT false
+    );
+
+    -- Vendedores que prefieren ser contactados solo por chat
+    ALTER TABLE usuario ADD COLUMN IF NOT EXISTS ocultar_telefono BOOLEAN NOT NULL DEFAULT false;
+    -- Sin default al crearla: las cuentas existentes no tienen fecha real de registro y quedan
+    -- en NULL (los clientes ocultan "miembro desde"); solo las cuentas nuevas reciben now()
+    ALTER TABLE usuario ADD COLUMN IF NOT EXISTS fecha_registro TIMESTAMPTZ;
+    ALTER TABLE usuario ALTER COLUMN fecha_registro SET DEFAULT now();
+    ALTER TABLE usuario ADD COLUMN IF NOT EXISTS foto_miniatura TEXT;
+
+    CREATE TABLE IF NOT EXISTS cambios_correo (
+      ID_usuario INTEGER PRIMARY KEY REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      correo_nuevo TEXT NOT NULL,
+      codigo_hash TEXT NOT NULL,
+      intentos INTEGER NOT NULL DEFAULT 0,
+      expira_en TIMESTAMPTZ NOT NULL,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS conversaciones (
+      ID_conversacion SERIAL PRIMARY KEY,
+      ID_publicacion INTEGER REFERENCES com_ventas(ID_publicacion) ON DELETE SET NULL,
+      nombre_articulo TEXT,
+      ID_comprador INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      ID_vendedor INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_ultimo_mensaje TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (ID_publicacion, ID_comprador)
+    );
+    CREATE INDEX IF NOT EXISTS idx_conversaciones_comprador ON conversaciones (ID_comprador, fecha_ultimo_mensaje DESC);
+    CREATE INDEX IF NOT EXISTS idx_conversaciones_vendedor ON conversaciones (ID_vendedor, fecha_ultimo_mensaje DESC);
+
+    CREATE TABLE IF NOT EXISTS mensajes (
+      ID_mensaje SERIAL PRIMARY KEY,
+      ID_conversacion INTEGER NOT NULL REFERENCES conversaciones(ID_conversacion) ON DELETE CASCADE,
+      ID_remitente INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      contenido TEXT NOT NULL,
+      fecha_envio TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_lectura TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_mensajes_conversacion ON mensajes (ID_conversacion, ID_mensaje DESC);
+
+    -- Las órdenes (y sus pagos) son registro contable: al borrar una cuenta o publicación quedan
+    -- anonimizadas en vez de borrarse. nombre_articulo guarda el nombre si la publicación se borra
+    CREATE TABLE IF NOT EXISTS ordenes (
+      ID_orden SERIAL PRIMARY KEY,
+      ID_publicacion INTEGER REFERENCES com_ventas(ID_publicacion) ON DELETE SET NULL,
+      ID_comprador INTEGER REFERENCES usuario(ID_usuario) ON DELETE SET NULL,
+      ID_vendedor INTEGER REFERENCES usuario(ID_usuario) ON DELETE SET NULL,
+      nombre_articulo TEXT,
+      precio NUMERIC NOT NULL,
+      estado TEXT NOT NULL DEFAULT 'pendiente'
+        CHECK (estado IN ('pendiente', 'aceptada', 'rechazada', 'pagada', 'entregada', 'cancelada')),
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_estado TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_ordenes_comprador ON ordenes (ID_comprador, fecha_creacion DESC);
+    CREATE INDEX IF NOT EXISTS idx_ordenes_vendedor ON ordenes (ID_vendedor, fecha_creacion DESC);
+    -- Una publicación solo puede tener una orden en curso a la vez
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_ordenes_activa_publicacion ON ordenes (ID_publicacion)
+      WHERE estado IN ('pendiente', 'aceptada', 'pagada');
+
+    CREATE TABLE IF NOT EXISTS historial_estados_orden (
+      ID_historial SERIAL PRIMARY KEY,
+      ID_orden INTEGER NOT NULL REFERENCES ordenes(ID_orden) ON DELETE CASCADE,
+      estado_anterior TEXT,
+      estado_nuevo TEXT NOT NULL,
+      ID_usuario INTEGER,
+      motivo TEXT,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE IF NOT EXISTS pagos (
+      ID_pago SERIAL PRIMARY KEY,
+      ID_orden INTEGER NOT NULL REFERENCES ordenes(ID_orden),
+      proveedor TEXT NOT NULL,
+      id_externo TEXT NOT NULL,
+      id_transaccion TEXT,
+      monto NUMERIC NOT NULL,
+      -- reembolso_pendiente: se pidió el reembolso a la pasarela y falta confirmarlo
+      estado TEXT NOT NULL DEFAULT 'pendiente'
+        CHECK (estado IN ('pendiente', 'aprobado', 'rechazado', 'anulado', 'reembolso_pendiente', 'reembolsado', 'error')),
+      url_pago TEXT,
+      id_reembolso TEXT,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_actualizacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (proveedor, id_externo)
+    );
+    CREATE INDEX IF NOT EXISTS idx_pagos_orden ON pagos (ID_orden);
+
+    -- Cada (transacción, estado) se procesa una sola vez aunque el proveedor reintente el webhook
+    CREATE TABLE IF NOT EXISTS eventos_pago (
+      ID_evento SERIAL PRIMARY KEY,
+      proveedor TEXT NOT NULL,
+      id_transaccion TEXT NOT NULL,
+      estado TEXT NOT NULL,
+      payload JSONB,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (proveedor, id_transaccion, estado)
+    );
+
+    CREATE TABLE IF NOT EXISTS resenas (
+      ID_resena SERIAL PRIMARY KEY,
+      ID_orden INTEGER NOT NULL UNIQUE REFERENCES ordenes(ID_orden),
+      ID_vendedor INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      ID_comprador INTEGER REFERENCES usuario(ID_usuario) ON DELETE SET NULL,
+      calificacion SMALLINT NOT NULL CHECK (calificacion BETWEEN 1 AND 5),
+      comentario TEXT,
+      respuesta TEXT,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_respuesta TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_resenas_vendedor ON resenas (ID_vendedor, ID_resena DESC);
+
+    CREATE OR REPLACE VIEW calificaciones_vendedor AS
+      SELECT ID_vendedor, ROUND(AVG(calificacion), 1) AS promedio, COUNT(*)::int AS total
+      FROM resenas
+      GROUP BY ID_vendedor;
+
+    -- Búsqueda de texto completo en español sin tildes ("rin" encuentra "Rín")
+    CREATE EXTENSION IF NOT EXISTS unaccent;
+    CREATE OR REPLACE FUNCTION busqueda_unaccent(text) RETURNS text
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+      SET search_path = public, extensions
+      AS $$ SELECT unaccent('unaccent', $1) $$;
+    CREATE INDEX IF NOT EXISTS idx_com_ventas_busqueda ON com_ventas
+      USING GIN (${DOCUMENTO_BUSQUEDA});
+
+    -- Ciclo de vida de las publicaciones: ya no se borran al venderse
+    ALTER TABLE com_ventas
+      ADD COLUMN IF NOT EXISTS estado TEXT NOT NULL DEFAULT 'activa'
+        CHECK (estado IN ('borrador', 'activa', 'reservada', 'vendida', 'archivada', 'retirada_admin')),
+      ADD COLUMN IF NOT EXISTS fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      ADD COLUMN IF NOT EXISTS fecha_estado TIMESTAMPTZ NOT NULL DEFAULT now(),
+      ADD COLUMN IF NOT EXISTS fecha_venta TIMESTAMPTZ;
+    CREATE INDEX IF NOT EXISTS idx_com_ventas_estado ON com_ventas (estado, ID_publicacion DESC);
+
+    -- Orden de las fotos dentro de la publicación (NULL = orden de subida)
+    ALTER TABLE com_ventas_fotos ADD COLUMN IF NOT EXISTS orden INTEGER;
+    ALTER TABLE com_ventas_fotos ADD COLUMN IF NOT EXISTS url_tarjeta TEXT;
+    ALTER TABLE com_ventas_fotos ADD COLUMN IF NOT EXISTS url_miniatura TEXT;
+
+    CREATE TABLE IF NOT EXISTS subidas_pendientes (
+      clave TEXT PRIMARY KEY,
+      ID_usuario INTEGER REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      proposito TEXT NOT NULL CHECK (proposito IN ('publicacion', 'avatar')),
+      ip TEXT,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_subidas_pendientes_fecha ON subidas_pendientes (fecha_creacion);
+
+    CREATE TABLE IF NOT EXISTS mensajes_asistente (
+      ID_mensaje SERIAL PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      rol TEXT NOT NULL CHECK (rol IN ('user', 'assistant')),
+      contenido TEXT NOT NULL,
+      publicaciones INTEGER[] NOT NULL DEFAULT '{}',
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_mensajes_asistente_usuario ON mensajes_asistente (ID_usuario, ID_mensaje DESC);
+    -- Mensajes enviados al asistente en la última hora, aparte del historial que el usuario puede borrar
+    CREATE TABLE IF NOT EXISTS usos_asistente (
+      ID_uso SERIAL PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_usos_asistente_usuario ON usos_asistente (ID_usuario, fecha);
+
+    ALTER TABLE com_ventas ADD COLUMN IF NOT EXISTS ID_comprador INTEGER REFERENCES usuario(ID_usuario) ON DELETE SET NULL;
+
+    CREATE TABLE IF NOT EXISTS historial_estados_publicacion (
+      ID_historial SERIAL PRIMARY KEY,
+      ID_publicacion INTEGER NOT NULL REFERENCES com_ventas(ID_publicacion) ON DELETE CASCADE,
+      estado_anterior TEXT,
+      estado_nuevo TEXT NOT NULL,
+      actor TEXT,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    -- Catálogo jerárquico de tipos de bicicleta y de componente (p. ej. Transmisión → Cadena)
+    CREATE OR REPLACE FUNCTION categoria_slug(text) RETURNS text
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+      AS $$ SELECT trim(both '-' from regexp_replace(lower(busqueda_unaccent($1)), '[^a-z0-9]+', '-', 'g')) $$;
+    CREATE TABLE IF NOT EXISTS categorias (
+      ID_categoria SERIAL PRIMARY KEY,
+      tipo TEXT NOT NULL CHECK (tipo IN ('bicicleta', 'componente')),
+      nombre TEXT NOT NULL,
+      slug TEXT NOT NULL,
+      ID_padre INTEGER REFERENCES categorias(ID_categoria),
+      orden INTEGER NOT NULL DEFAULT 0,
+      activa BOOLEAN NOT NULL DEFAULT true,
+      UNIQUE (tipo, slug)
+    );
+    -- Escrituras alternativas (en slug) que se traducen a una categoría: "mtb" → Montaña
+    CREATE TABLE IF NOT EXISTS categorias_alias (
+      tipo TEXT NOT NULL,
+      alias TEXT NOT NULL,
+      ID_categoria INTEGER NOT NULL REFERENCES categorias(ID_categoria) ON DELETE CASCADE,
+      PRIMARY KEY (tipo, alias)
+    );
+    ALTER TABLE com_ventas
+      ADD COLUMN IF NOT EXISTS ID_tipo_bicicleta INTEGER REFERENCES categorias(ID_categoria),
+      ADD COLUMN IF NOT EXISTS ID_tipo_componente INTEGER REFERENCES categorias(ID_categoria);
+    CREATE INDEX IF NOT EXISTS idx_com_ventas_categorias ON com_ventas (ID_tipo_bicicleta, ID_tipo_componente);
+
+    CREATE TABLE IF NOT EXISTS busquedas_guardadas (
+      ID_busqueda SERIAL PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      texto TEXT,
+      ID_tipo_bicicleta INTEGER REFERENCES categorias(ID_categoria) ON DELETE CASCADE,
+      ID_tipo_componente INTEGER REFERENCES categorias(ID_categoria) ON DELETE CASCADE,
+      precio_max NUMERIC,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_busquedas_guardadas_usuario ON busquedas_guardadas (ID_usuario);
+    -- Una publicación se avisa una sola vez por búsqueda aunque vuelva a activarse
+    CREATE TABLE IF NOT EXISTS coincidencias_busqueda (
+      ID_busqueda INTEGER NOT NULL REFERENCES busquedas_guardadas(ID_busqueda) ON DELETE CASCADE,
+      ID_publicacion INTEGER NOT NULL REFERENCES com_ventas(ID_publicacion) ON DELETE CASCADE,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (ID_busqueda, ID_publicacion)
+    );
+
+    CREATE TABLE IF NOT EXISTS alertas_precio (
+      ID_alerta SERIAL PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      ID_publicacion INTEGER NOT NULL REFERENCES com_ventas(ID_publicacion) ON DELETE CASCADE,
+      precio_objetivo NUMERIC NOT NULL CHECK (precio_objetivo > 0),
+      activa BOOLEAN NOT NULL DEFAULT true,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now(),
+      fecha_disparo TIMESTAMPTZ,
+      UNIQUE (ID_usuario, ID_publicacion)
+    );
+    CREATE INDEX IF NOT EXISTS idx_alertas_precio_publicacion ON alertas_precio (ID_publicacion) WHERE activa;
+
+    -- Favoritos: lista de deseos aparte del carrito, sin avisar al vendedor
+    CREATE TABLE IF NOT EXISTS favoritos (
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      ID_publicacion INTEGER NOT NULL REFERENCES com_ventas(ID_publicacion) ON DELETE CASCADE,
+      fecha TIMESTAMPTZ NOT NULL DEFAULT now(),
+      PRIMARY KEY (ID_usuario, ID_publicacion)
+    );
+    CREATE INDEX IF NOT EXISTS idx_favoritos_publicacion ON favoritos (ID_publicacion);
+
+    -- Refresh tokens emitidos; permite revocarlos al cerrar sesión o cambiar la contraseña
+    CREATE TABLE IF NOT EXISTS tokens_refresco (
+      jti TEXT PRIMARY KEY,
+      ID_usuario INTEGER NOT NULL REFERENCES usuario(ID_usuario) ON DELETE CASCADE,
+      revocado BOOLEAN NOT NULL DEFAULT false,
+      expira_en TIMESTAMPTZ NOT NULL,
+      fecha_creacion TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS idx_tokens_refresco_usuario ON tokens_refresco (ID_usuario);
+  `);
+
+  await sembrarCategorias();
+  await migrarCategoriasTextoLibre();
+}
+
+type TipoCategoria = 'bicicleta' | 'componente';
+
+// Árbol inicial; solo se inserta si el catálogo está vacío para no revivir lo que borre un admin
+const CATEGORIAS_INICIALES: Record<TipoCategoria, { nombre: string; hijos?: string[]; alias?: string[] }[]> = {
+  bicicleta: [
+    { nombre: 'Ruta', alias: ['carretera'] },
+    { nombre: 'Montaña', alias: ['mtb', 'mountain bike', 'todo terreno'] },
+    { nombre: 'Gravel' },
+    { nombre: 'Urbana', alias: ['ciudad', 'paseo'] },
+    { nombre: 'BMX' },
+    { nombre: 'Eléctrica', alias: ['e-bike', 'ebike'] },
+    { nombre: 'Infantil', alias: ['niños'] },
+  ],
+  componente: [
+    { nombre: 'Transmisión', hijos: ['Cadena', 'Piñón', 'Plato', 'Bielas', 'Descarrilador', 'Mandos de cambio'] },
+    { nombre: 'Frenos', hijos: ['Pastillas', 'Discos', 'Cálipers', 'Manetas'] },
+    { nombre: 'Ruedas', hijos: ['Rines', 'Llantas', 'Neumáticos', 'Manzanas', 'Radios'] },
+    { nombre: 'Suspensión', hijos: ['Tenedor', 'Amortiguador'] },
+    { nombre: 'Cuadro', alias: ['marco'] },
+    { nombre: 'Dirección', hijos: ['Manubrio', 'Potencia', 'Juego de dirección'] },
+    { nombre: 'Sillín y tija', alias: ['sillin', 'tija', 'galapago'] },
+    { nombre: 'Pedales' },
+    { nombre: 'Accesorios', hijos: ['Luces', 'Cascos', 'Herramientas', 'Portacaramañolas'] },
+  ],
+};
+
+async function sembrarCategorias() {
+  const existentes = await pool.query('SELECT 1 FROM categorias LIMIT 1');
+  if (existentes.rows.length > 0) return;
+
+  const insertar = async (tipo: TipoCategoria, nombre: string, orden: number, ID_padre: number | null) => {
+    const result = await pool.query(
+      `INSERT INTO categorias (tipo, nombre, slug, ID_padre, orden)
+       VALUES ($1, $2, categoria_slug($2), $3, $4)
+       ON CONFLICT (tipo, slug) DO UPDATE SET nombre = EXCLUDED.nombre
+       RETURNING ID_categoria AS id_categoria`,
+      [tipo, nombre, ID_padre, orden]
+    );
+    return result.rows[0].id_categoria as number;
+  };
+
+  for (const tipo of Object.keys(CATEGORIAS_INICIALES) as TipoCategoria[]) {
+    for (const [i, categoria] of CATEGORIAS_INICIALES[tipo].entries()) {
+      const id = await insertar(tipo, categoria.nombre, i, null);
+      for (const [j, hijo] of (categoria.hijos || []).entries()) {
+        await insertar(tipo, hijo, j, id);
+      }
+      for (const alias of categoria.alias || []) {
+        await pool.query(
+          `INSERT INTO categorias_alias (tipo, alias, ID_categoria)
+           VALUES ($1, categoria_slug($2), $3) ON CONFLICT DO NOTHING`,
+          [tipo, alias, id]
+        );
+      }
+    }
+  }
+  console.log('🌱 Catálogo de categorías creado');
+}
+
+const COLUMNAS_CATEGORIA: Record<TipoCategoria, { texto: string; id: string }> = {
+  bicicleta: { texto: 'tipo_bicicleta', id: 'ID_tipo_bicicleta' },
+  componente: { texto: 'tipo_componente', id: 'ID_tipo_componente' },
+};
+
+// Asigna la categoría a las publicaciones con texto libre que coincide con un slug o alias,
+// y deja el texto con el nombre canónico. Lo que no coincide queda en /categorias-admin/sin-mapear
+async function migrarCategoriasTextoLibre() {
+  for (const tipo of Object.keys(COLUMNAS_CATEGORIA) as TipoCategoria[]) {
+    const { texto, id } = COLUMNAS_CATEGORIA[tipo];
+    const result = await pool.query(
+      `WITH claves AS (
+         SELECT slug AS clave, ID_categoria FROM categorias WHERE tipo = $1
+         UNION
+         SELECT alias, ID_categoria FROM categorias_alias WHERE tipo = $1
+       )
+       UPDATE com_ventas cv SET ${id} = c.ID_categoria, ${texto} = c.nombre
+       FROM claves k
+       JOIN categorias c ON c.ID_categoria = k.ID_categoria
+       WHERE cv.${id} IS NULL AND k.clave = categoria_slug(cv.${texto})`,
+      [tipo]
+    );
+    if (result.rowCount) console.log(`🏷️ ${result.rowCount} publicaciones asociadas a categorías de ${tipo}`);
+  }
+}
+
+inicializarTablas()
+.then(() => console.log("✅ Tablas auxiliares verificadas"))
+.catch((err) => console.error("❌ Error al crear tablas auxiliares:", err));
+
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Detrás del proxy del hosting req.ip sería siempre la IP del proxy y los límites por IP
+// se compartirían entre todos. TRUST_PROXY acepta un número de saltos, true/false o una
+// lista de subredes (ver "trust proxy" en la documentación de Express)
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY) {
+  app.set(
+    'trust proxy',
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY)
+      : TRUST_PROXY === 'true' ? true
+      : TRUST_PROXY === 'false' ? false
+      : TRUST_PROXY
+  );
+}
+
+// ==================== LÍMITES DE IMÁGENES ====================
+const MAX_BYTES_FOTO = 5 * 1024 * 1024;
+const MAX_FOTOS_PUBLICACION = 8;
+const MAX_PIXELES_FOTO = 40_000_000;
+const LIMITE_CUERPO_JSON = `${Math.ceil((MAX_FOTOS_PUBLICACION * MAX_BYTES_FOTO * 4) / 3 / (1024 * 1024)) + 1}mb`;
+
 // Configuración mejorada de CORS y middleware
 app.use(cors({
   origin: '*',
-  methods: ['GET', 'POST', 'DELETE'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
+// Las fotos llegan en base64 dentro del JSON: solo las rutas que las reciben aceptan cuerpos
+// grandes (el límite cubre el máximo de fotos permitido). Van antes del parser global, que
+// ya no vuelve a leer un cuerpo parseado
+const parserJsonFotos = express.json({ limit: LIMITE_CUERPO_JSON });
+app.post('/publicar_articulo', parserJsonFotos);
+app.post('/registrar', parserJsonFotos);
+app.post('/publicaciones/:id/fotos', parserJsonFotos);
+app.put('/usuario/foto', parserJsonFotos);
+app.post('/publicaciones/sugerencia', parserJsonFotos);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -104,6 +587,219 @@ const validarCamposUsuario = (req: Request, res: Response, next: Function) => {
   next();
 };
 
+// IDs de la base de datos: enteros positivos dentro del rango de INTEGER de Postgres.
+// Valores como "1.5", "1e3" o " " harían fallar el cast en la consulta con un 500
+const MAX_INT_POSTGRES = 2147483647;
+
+const idEntero = (valor: unknown): number | null => {
+  const texto = typeof valor === 'number' ? String(valor) : valor;
+  if (typeof texto !== 'string' || !/^\d+$/.test(texto)) return null;
+  const id = Number(texto);
+  return id > 0 && id <= MAX_INT_POSTGRES ? id : null;
+};
+
+// Todos los parámetros de ruta que son IDs pasan por la misma validación
+app.param(['id', 'id_usuario', 'ID_usuario', 'ID_publicacion', 'idFoto'], (req, res, next, valor) => {
+  if (idEntero(valor) === null) return res.status(400).json({ error: 'ID inválido' });
+  next();
+});
+
+// ==================== AUTENTICACIÓN ====================
+// Sin estos secretos los tokens se firmarían con "undefined"; mejor no arrancar
+for (const variable of ['JWT_SECRET', 'JWT_REFRESH_SECRET', 'JWT_ADMIN_SECRET']) {
+  if (!process.env[variable]) {
+    throw new Error(`Falta la variable de entorno ${variable}`);
+  }
+}
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET!;
+const DURACION_ACCESS_TOKEN = '15m';
+const DURACION_REFRESH_TOKEN = '30d';
+const DIAS_REFRESH_TOKEN = 30;
+
+interface UsuarioToken {
+  ID_usuario: number;
+  correo: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      usuario?: UsuarioToken;
+    }
+  }
+}
+
+interface PayloadRefresco extends UsuarioToken {
+  jti: string;
+}
+
+// Generar par de tokens (acceso y refresco) para un usuario; el refresh token queda registrado
+const generarTokens = async (usuario: UsuarioToken, db: Pool | PoolClient = pool) => {
+  const payload = { ID_usuario: usuario.ID_usuario, correo: usuario.correo };
+  const jti = crypto.randomUUID();
+
+  await db.query(
+    `INSERT INTO tokens_refresco (jti, ID_usuario, expira_en)
+     VALUES ($1, $2, now() + make_interval(days => $3))`,
+    [jti, usuario.ID_usuario, DIAS_REFRESH_TOKEN]
+  );
+
+  return {
+    accessToken: jwt.sign(payload, JWT_SECRET, { expiresIn: DURACION_ACCESS_TOKEN }),
+    refreshToken: jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: DURACION_REFRESH_TOKEN, jwtid: jti }),
+  };
+};
+
+// Revocar todos los refresh tokens vigentes de un usuario (cambio o restablecimiento de contraseña)
+const revocarTokensUsuario = (db: Pool | PoolClient, ID_usuario: number) =>
+  db.query(
+    'UPDATE tokens_refresco SET revocado = true WHERE ID_usuario = $1 AND revocado = false',
+    [ID_usuario]
+  );
+
+// Middleware: resuelve el usuario a partir del header Authorization
+const autenticarUsuario = (req: Request, res: Response, next: Function) => {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Token de acceso requerido' });
+  }
+
+  try {
+    const payload = jwt.verify(header.slice('Bearer '.length), JWT_SECRET) as UsuarioToken;
+    req.usuario = { ID_usuario: Number(payload.ID_usuario), correo: payload.correo };
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Token inválido o expirado' });
+  }
+};
+
+// Middleware: igual que autenticarUsuario, pero deja pasar solicitudes sin token
+const autenticarUsuarioOpcional = (req: Request, res: Response, next: Function) => {
+  if (!req.headers.authorization) return next();
+  return autenticarUsuario(req, res, next);
+};
+
+// ---- Sesiones de administrador ----
+const JWT_ADMIN_SECRET = process.env.JWT_ADMIN_SECRET!;
+const DURACION_TOKEN_ADMIN = '8h';
+
+type RolAdmin = 'moderador' | 'superadmin';
+
+interface AdminToken {
+  usuario: string;
+  rol: RolAdmin;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      admin?: AdminToken;
+    }
+  }
+}
+
+// Middleware: exige un token de administrador con alguno de los roles indicados
+const autenticarAdmin = (...roles: RolAdmin[]) =>
+  (req: Request, res: Response, next: Function) => {
+    const header = req.headers.authorization;
+
+    if (!header || !header.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Token de administrador requerido' });
+    }
+
+    try {
+      const payload = jwt.verify(header.slice('Bearer '.length), JWT_ADMIN_SECRET) as AdminToken;
+      if (!roles.includes(payload.rol)) {
+        return res.status(403).json({ error: 'Rol sin permisos para esta acción' });
+      }
+      req.admin = { usuario: payload.usuario, rol: payload.rol };
+      next();
+    } catch (error) {
+      return res.status(401).json({ error: 'Token inválido o expirado' });
+    }
+  };
+
+// Registrar una acción de administrador en la tabla de auditoría
+async function registrarAuditoria(
+  req: Request,
+  accion: string,
+  tipoObjetivo: 'usuario' | 'publicacion' | 'categoria' | null,
+  idObjetivo: number | null,
+  detalle: any = null
+) {
+  try {
+    await pool.query(
+      `INSERT INTO auditoria_admin (admin_usuario, accion, tipo_objetivo, ID_objetivo, detalle)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [req.admin!.usuario, accion, tipoObjetivo, idObjetivo, detalle ? JSON.stringify(detalle) : null]
+    );
+  } catch (error) {
+    console.error('❌ Error registrando auditoría:', error);
+  }
+}
+
+// Verificar que el usuario autenticado sea dueño del recurso
+const esPropietario = (req: Request, idRecurso: unknown) =>
+  req.usuario !== undefined && Number(idRecurso) === req.usuario.ID_usuario;
+
+// ==================== CONTRASEÑAS ====================
+const LONGITUD_MINIMA_CONTRASENA = 8;
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Parámetros de scrypt (N=2^15 ≈ 100 ms por hash)
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEYLEN = 64;
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+// Formato guardado: scrypt$N$r$p$salt$hash (salt y hash en base64)
+const hashearContraseña = async (contraseña: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const hash = await scryptAsync(contraseña, salt, SCRYPT_KEYLEN, {
+    N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: SCRYPT_MAXMEM,
+  });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+// Compara una contraseña con lo guardado en BD. Las filas antiguas en texto plano
+// se aceptan pero se marcan con requiereRehash para migrarlas al iniciar sesión.
+const verificarContraseña = async (
+  contraseña: string,
+  guardada: string | null
+): Promise<{ valida: boolean; requiereRehash: boolean }> => {
+  if (!guardada) return { valida: false, requiereRehash: false };
+
+  const partes = guardada.split('$');
+  if (partes.length !== 6 || partes[0] !== 'scrypt') {
+    const a = Buffer.from(String(contraseña));
+    const b = Buffer.from(guardada);
+    const valida = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return { valida, requiereRehash: valida };
+  }
+
+  const [, n, r, p, salt, hashGuardado] = partes;
+  const esperado = Buffer.from(hashGuardado, 'base64');
+  const hash = await scryptAsync(contraseña, Buffer.from(salt, 'base64'), esperado.length, {
+    N: Number(n), r: Number(r), p: Number(p), maxmem: SCRYPT_MAXMEM,
+  });
+  const valida = crypto.timingSafeEqual(hash, esperado);
+
+  return {
+    valida,
+    requiereRehash: valida && (Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P),
+  };
+};
+
 // Ruta para registrar usuario con foto en Supabase
 app.post('/registrar', validarCamposUsuario, async (req: Request, res: Response) => {
   const { nombre, correo, contraseña, telefono, foto } = req.body;
@@ -123,52 +819,42 @@ app.post('/registrar', validarCamposUsuario, async (req: Request, res: Response)
 
     await client.query('BEGIN');
 
-    let publicUrl: string | null = null;
+    // Insertar usuario en la base de datos
+    const contraseñaHash = await hashearContraseña(contraseña);
+    const result = await client.query(
+      'INSERT INTO usuario (nombre, correo, contraseña, telefono) VALUES ($1, $2, $3, $4) RETURNING id_usuario, nombre, correo, foto, foto_miniatura',
+      [nombre, correo, contraseñaHash, telefono]
+    );
 
+    // La foto de perfil (data URL o clave de /subidas) se guarda bajo avatares/ con su miniatura
+    let claveSubida: string | null = null;
     if (foto) {
-      // Detectar tipo real de imagen
-      const match = foto.match(/^data:image\/(\w+);base64,/);
-      if (!match) {
-        return res.status(400).json({ error: 'Formato de imagen inválido' });
-      }
-      const tipo = match[1]; // 'png', 'jpeg', etc.
-
-      // Convertir base64 a buffer
-      const base64Data = foto.replace(/^data:image\/\w+;base64,/, "");
-      const fotoBuffer = Buffer.from(base64Data, 'base64');
-
-      // Generar nombre único para la foto
-      const nombreArchivo = `publicaciones/${correo}_${Date.now()}.${tipo}`;
-
-      // Subir foto al bucket 'articulos' (igual que publicar_articulo)
-      const { error: uploadError } = await supabase.storage
-        .from('articulos')
-        .upload(nombreArchivo, fotoBuffer, {
-          contentType: `image/${tipo}`,
-          upsert: true,
-        });
-
-      if (uploadError) {
-        console.error('Error al subir la foto:', uploadError);
-        return res.status(500).json({ error: 'No se pudo subir la foto' });
+      try {
+        const entrada = await obtenerFotoEntrada(foto, null, 'avatar');
+        claveSubida = entrada.clave;
+        const avatar = await subirAvatar(result.rows[0].id_usuario, entrada.buffer);
+        await client.query(
+          'UPDATE usuario SET foto = $1, foto_miniatura = $2 WHERE ID_usuario = $3',
+          [avatar.foto, avatar.foto_miniatura, result.rows[0].id_usuario]
+        );
+        Object.assign(result.rows[0], avatar);
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('Error al subir la foto:', error);
+        return res.status(400).json({ error: 'No se pudo procesar la foto de perfil' });
       }
-
-      // Obtener URL pública
-      const { data } = supabase.storage.from('articulos').getPublicUrl(nombreArchivo);
-      publicUrl = data.publicUrl;
     }
 
-    // Insertar usuario en la base de datos con URL pública de la foto
-    const result = await client.query(
-      'INSERT INTO usuario (nombre, correo, contraseña, telefono, foto) VALUES ($1, $2, $3, $4, $5) RETURNING id_usuario, nombre, correo, foto',
-      [nombre, correo, contraseña, telefono, publicUrl]
-    );
+    const usuario = result.rows[0];
+    const tokens = await generarTokens({ ID_usuario: usuario.id_usuario, correo: usuario.correo }, client);
 
     await client.query('COMMIT');
+    liberarSubidas([claveSubida]).catch((error) => console.error('⚠️ No se pudieron liberar subidas:', error));
 
     res.status(201).json({ 
       mensaje: 'Usuario registrado correctamente',
-      usuario: result.rows[0]
+      usuario,
+      ...tokens
     });
 
   } catch (error) {
@@ -192,19 +878,35 @@ app.post('/iniciar-sesion', async (req: Request, res: Response) => {
     }
 
     const result = await pool.query(
-      `SELECT id_usuario AS "ID_usuario", nombre, correo 
+      `SELECT id_usuario AS "ID_usuario", nombre, correo, contraseña 
        FROM usuario 
-       WHERE correo = $1 AND contraseña = $2`,
-      [correo, contraseña]
+       WHERE correo = $1`,
+      [correo]
     );
 
     if (result.rows.length === 0) {
       return res.status(401).json({ error: 'Credenciales incorrectas' });
     }
 
+    const { contraseña: contraseñaGuardada, ...usuario } = result.rows[0];
+    const { valida, requiereRehash } = await verificarContraseña(contraseña, contraseñaGuardada);
+
+    if (!valida) {
+      return res.status(401).json({ error: 'Credenciales incorrectas' });
+    }
+
+    // Migrar contraseñas antiguas (texto plano) al nuevo formato
+    if (requiereRehash) {
+      await pool.query('UPDATE usuario SET contraseña = $1 WHERE id_usuario = $2', [
+        await hashearContraseña(contraseña),
+        usuario.ID_usuario,
+      ]);
+    }
+
     res.status(200).json({ 
       mensaje: 'Inicio de sesión exitoso',
-      usuario: result.rows[0] 
+      usuario,
+      ...(await generarTokens(usuario))
     });
   } catch (error) {
     console.error('Error al iniciar sesión:', error);
@@ -212,171 +914,248 @@ app.post('/iniciar-sesion', async (req: Request, res: Response) => {
   }
 });
 
+// Ruta para renovar el token de acceso con un refresh token
+app.post('/refrescar-token', async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
 
+  if (!refreshToken) {
+    return res.status(400).json({ error: 'refreshToken es obligatorio' });
+  }
 
-//prueba de restablecimiento de contraseña
-app.post("/enviar-correo-reset", async (req, res) => {
-  const { correo } = req.body;
+  let payload: PayloadRefresco;
   try {
-    const result = await pool.query("SELECT * FROM usuario WHERE correo = $1", [correo]);
-    if (result.rows.length === 0) {
-      return res.status(404).json({ mensaje: "Correo no registrado" });
-    }
-
-    const codigo = Math.floor(100000 + Math.random() * 900000).toString();
-    codigosReset.set(correo, codigo);
-
-    // enviar email usando Resend
-    await resend.emails.send({
-      from: "Soporte Ruedas <onboarding@resend.dev>", // puedes usar este temporalmente
-      to: correo,
-      subject: "Código para restablecer contraseña",
-      text: `Tu código es: ${codigo}`,
-    });
-
-    res.json({ mensaje: "Código enviado al correo" });
+    payload = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as PayloadRefresco;
   } catch (error) {
-    console.error("❌ Error enviando correo:", error);
-    res.status(500).json({ mensaje: "Error del servidor" });
+    return res.status(401).json({ error: 'Refresh token inválido o expirado' });
   }
-});
 
-//restablecer contraseña
-app.post("/restablecer-contrasena", async (req, res) => {
-  const { correo, codigo, nuevaContraseña } = req.body;
-  const codigoGuardado = codigosReset.get(correo);
-
-  if (!codigoGuardado || codigoGuardado !== codigo) {
-    return res.status(400).json({ mensaje: "Código incorrecto o expirado" });
+  if (!payload.jti) {
+    return res.status(401).json({ error: 'Refresh token inválido o expirado' });
   }
 
+  const client = await pool.connect();
+
   try {
-    await pool.query('UPDATE usuario SET "contraseña" = $1 WHERE correo = $2', [nuevaContraseña, correo]);
-    codigosReset.delete(correo);
+    await client.query('BEGIN');
 
-    res.json({ mensaje: "Contraseña actualizada correctamente" });
+    // Rotación: el token usado se revoca y solo vale una vez
+    const revocado = await client.query(
+      `UPDATE tokens_refresco SET revocado = true
+       WHERE jti = $1 AND ID_usuario = $2 AND revocado = false AND expira_en > now()
+       RETURNING jti`,
+      [payload.jti, payload.ID_usuario]
+    );
+
+    if (revocado.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(401).json({ error: 'Refresh token inválido o expirado' });
+    }
+
+    // Confirmar que el usuario sigue existiendo
+    const result = await client.query(
+      `SELECT id_usuario AS "ID_usuario", correo FROM usuario WHERE id_usuario = $1`,
+      [payload.ID_usuario]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(401).json({ error: 'Usuario no encontrado' });
+    }
+
+    const tokens = await generarTokens(result.rows[0], client);
+    await client.query('COMMIT');
+
+    res.json(tokens);
   } catch (error) {
-    console.error("❌ Error actualizando contraseña:", error);
-    res.status(500).json({ mensaje: "Error del servidor" });
+    await client.query('ROLLBACK');
+    console.error('Error al refrescar el token:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
   }
 });
 
+// Ruta para cerrar sesión: revoca el refresh token recibido
+app.post('/cerrar-sesion', async (req: Request, res: Response) => {
+  const { refreshToken } = req.body;
 
-//buscar 
-// 🔍 Buscar publicaciones por nombre
-app.get('/buscar', async (req: Request, res: Response) => {
-  const nombre = req.query.nombre as string;
+  if (!refreshToken) {
+    return res.status(400).json({ error: 'refreshToken es obligatorio' });
+  }
 
-  if (!nombre || nombre.trim() === '') {
-    return res.status(400).json({ error: 'El parámetro "nombre" es obligatorio' });
+  let payload: PayloadRefresco;
+  try {
+    // Un token ya expirado también se acepta: cerrar sesión no debe fallar por eso
+    payload = jwt.verify(refreshToken, JWT_REFRESH_SECRET, { ignoreExpiration: true }) as PayloadRefresco;
+  } catch (error) {
+    return res.status(401).json({ error: 'Refresh token inválido' });
   }
 
   try {
-    const resultado = await pool.query(
-      `SELECT 
-        cv.ID_publicacion as id,
-        cv.nombre_articulo, 
-        cv.descripcion, 
-        cv.precio, 
-        cv.tipo_bicicleta, 
-        cv.tipo_componente,
-        cv.ID_usuario AS id_vendedor,
-        u.nombre AS nombre_vendedor,
-        u.telefono,
-        u.foto,
-        COALESCE(
-          json_agg(cvf.url_foto) FILTER (WHERE cvf.url_foto IS NOT NULL),
-          '[]'
-        ) as fotos
-      FROM com_ventas cv
-      INNER JOIN usuario u ON cv.ID_usuario = u.ID_usuario
-      LEFT JOIN com_ventas_fotos cvf ON cv.ID_publicacion = cvf.ID_publicacion
-      WHERE cv.nombre_articulo ILIKE $1
-      GROUP BY 
-        cv.ID_publicacion, 
-        cv.nombre_articulo, 
-        cv.descripcion, 
-        cv.precio, 
-        cv.tipo_bicicleta, 
-        cv.tipo_componente,
-        cv.ID_usuario,
-        u.nombre, 
-        u.telefono,
-        u.foto`,
-      [`%${nombre}%`]
-    );
+    if (payload.jti) {
+      await pool.query(
+        'UPDATE tokens_refresco SET revocado = true WHERE jti = $1 AND ID_usuario = $2',
+        [payload.jti, payload.ID_usuario]
+      );
+    }
 
-    res.status(200).json(resultado.rows);
+    res.json({ mensaje: 'Sesión cerrada' });
   } catch (error) {
-    console.error('❌ Error al buscar artículos:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
+    console.error('Error al cerrar sesión:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
   }
 });
 
 
 
+// ==================== RESTABLECER CONTRASEÑA ====================
+const RESET_DURACION_MINUTOS = 15;
+const RESET_MAX_INTENTOS = 5;
+const RESET_MAX_ENVIOS_CORREO_HORA = 3;
+const RESET_MAX_ENVIOS_IP_HORA = 10;
+const MENSAJE_RESET_GENERICO = "Si el correo está registrado, recibirás un código para restablecer tu contraseña";
+
+// Los códigos se guardan como HMAC, nunca en texto plano
+const hashearCodigoReset = (correo: string, codigo: string) =>
+  crypto.createHmac('sha256', JWT_SECRET).update(`${correo}:${codigo}`).digest('hex');
+
+// Aplicar los límites de envío por correo y por IP; si hay cupo deja registrada la solicitud.
+// Conteo e inserción van bajo el candado del correo y de la IP para que solicitudes en paralelo
+// no pasen todas el límite
+const registrarSolicitudCorreo = (proposito: 'reset' | 'cambio_correo', correo: string, ip: string | undefined) =>
+  conCandado([`${proposito}:correo:${correo}`, `${proposito}:ip:${ip}`], async (client) => {
+    const limites = await client.query(
+      `SELECT
+        (SELECT COUNT(*) FROM solicitudes_reset
+         WHERE proposito = $3 AND correo = $1 AND fecha > now() - interval '1 hour')::int AS por_correo,
+        (SELECT COUNT(*) FROM solicitudes_reset
+         WHERE proposito = $3 AND ip = $2 AND fecha > now() - interval '1 hour')::int AS por_ip`,
+      [correo, ip, proposito]
+    );
+    const { por_correo, por_ip } = limites.rows[0];
 
-// Ruta para publicar artículo con fotos en Supabase
-app.post('/publicar_articulo', async (req: Request, res: Response) => {
-  const { nombre_Articulo, descripcion, precio, tipo_bicicleta, tipo_componente, fotos, ID_usuario } = req.body;
-
-  if (!ID_usuario) return res.status(400).json({ error: 'ID de usuario es requerido' });
-  if (!fotos || !Array.isArray(fotos) || fotos.length === 0) return res.status(400).json({ error: 'Se requiere al menos una foto' });
-
-  const client = await pool.connect();
-
-  try {
-    await client.query('BEGIN');
+    if (por_correo >= RESET_MAX_ENVIOS_CORREO_HORA || por_ip >= RESET_MAX_ENVIOS_IP_HORA) {
+      return false;
+    }
 
-    const result = await client.query(
-      `INSERT INTO com_ventas 
-        (nombre_Articulo, descripcion, precio, tipo_bicicleta, tipo_componente, ID_usuario) 
-       VALUES ($1, $2, $3, $4, $5, $6) 
-       RETURNING ID_publicacion`,
-      [nombre_Articulo, descripcion, precio, tipo_bicicleta, tipo_componente, ID_usuario]
+    await client.query(
+      "INSERT INTO solicitudes_reset (correo, ip, proposito) VALUES ($1, $2, $3)",
+      [correo, ip, proposito]
     );
+    return true;
+  });
 
-    const idPublicacion = result.rows[0].id_publicacion;
-
-    for (let i = 0; i < fotos.length; i++) {
-      const foto = fotos[i];
+//enviar código de restablecimiento
+app.post("/enviar-correo-reset", async (req, res) => {
+  const { correo } = req.body;
 
-      // Detectar tipo real de imagen
-      const match = foto.match(/^data:image\/(\w+);base64,/);
-      if (!match) throw new Error('Formato de imagen inválido');
-      const tipo = match[1]; // 'png', 'jpeg', etc.
+  if (!correo) {
+    return res.status(400).json({ mensaje: "El correo es obligatorio" });
+  }
 
-      // Convertir base64 a buffer
-      const base64Data = foto.replace(/^data:image\/\w+;base64,/, "");
-      const fotoBuffer = Buffer.from(base64Data, 'base64');
+  try {
+    // Límites de envío por correo y por IP (se cuentan también correos no registrados)
+    if (!(await registrarSolicitudCorreo('reset', correo, req.ip))) {
+      return res.status(429).json({ mensaje: "Demasiadas solicitudes, intenta más tarde" });
+    }
 
-      const nombreArchivo = `publicaciones/${idPublicacion}/foto_${i}.${tipo}`;
+    const result = await pool.query("SELECT 1 FROM usuario WHERE correo = $1", [correo]);
+    if (result.rows.length === 0) {
+      // Respuesta genérica para no revelar qué correos están registrados
+      return res.json({ mensaje: MENSAJE_RESET_GENERICO });
+    }
 
-      // Subir al bucket
-      const { error: uploadError } = await supabase.storage
-        .from('articulos')
-        .upload(nombreArchivo, fotoBuffer, { contentType: `image/${tipo}`, upsert: true });
+    const codigo = crypto.randomInt(100000, 1000000).toString();
 
-      if (uploadError) throw uploadError;
+    // Invalidar códigos anteriores y guardar el nuevo
+    await pool.query("UPDATE codigos_reset SET usado = true WHERE correo = $1 AND usado = false", [correo]);
+    await pool.query(
+      `INSERT INTO codigos_reset (correo, codigo_hash, expira_en)
+       VALUES ($1, $2, now() + make_interval(mins => $3))`,
+      [correo, hashearCodigoReset(correo, codigo), RESET_DURACION_MINUTOS]
+    );
+
+    // enviar email usando Resend
+    await resend.emails.send({
+      from: "Soporte Ruedas <onboarding@resend.dev>", // puedes usar este temporalmente
+      to: correo,
+      subject: "Código para restablecer contraseña",
+      text: `Tu código es: ${codigo}. Vence en ${RESET_DURACION_MINUTOS} minutos.`,
+    });
+
+    res.json({ mensaje: MENSAJE_RESET_GENERICO });
+  } catch (error) {
+    console.error("❌ Error enviando correo:", error);
+    res.status(500).json({ mensaje: "Error del servidor" });
+  }
+});
+
+//restablecer contraseña
+app.post("/restablecer-contrasena", async (req, res) => {
+  const { correo, codigo, nuevaContraseña } = req.body;
+
+  if (!correo || !codigo || !nuevaContraseña) {
+    return res.status(400).json({ mensaje: "Correo, código y nueva contraseña son obligatorios" });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Código vigente más reciente, bloqueado para evitar intentos concurrentes
+    const result = await client.query(
+      `SELECT ID_codigo AS id_codigo, codigo_hash, intentos
+       FROM codigos_reset
+       WHERE correo = $1 AND usado = false AND expira_en > now()
+       ORDER BY fecha_creacion DESC
+       LIMIT 1
+       FOR UPDATE`,
+      [correo]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ mensaje: "Código incorrecto o expirado" });
+    }
+
+    const registro = result.rows[0];
+
+    if (registro.intentos >= RESET_MAX_INTENTOS) {
+      await client.query('ROLLBACK');
+      return res.status(429).json({ mensaje: "Demasiados intentos, solicita un nuevo código" });
+    }
 
-      // Obtener URL pública
-      const { data } = supabase.storage.from('articulos').getPublicUrl(nombreArchivo);
-      const publicUrl = data.publicUrl;
+    const esperado = Buffer.from(registro.codigo_hash, 'hex');
+    const recibido = Buffer.from(hashearCodigoReset(correo, String(codigo)), 'hex');
 
-      // Guardar URL en la base de datos
+    if (!crypto.timingSafeEqual(esperado, recibido)) {
       await client.query(
-        `INSERT INTO com_ventas_fotos (ID_publicacion, url_foto) VALUES ($1, $2)`,
-        [idPublicacion, publicUrl]
+        "UPDATE codigos_reset SET intentos = intentos + 1 WHERE ID_codigo = $1",
+        [registro.id_codigo]
       );
+      await client.query('COMMIT');
+      return res.status(400).json({ mensaje: "Código incorrecto o expirado" });
+    }
+
+    const actualizado = await client.query(
+      'UPDATE usuario SET "contraseña" = $1 WHERE correo = $2 RETURNING ID_usuario AS id_usuario',
+      [await hashearContraseña(nuevaContraseña), correo]
+    );
+    await client.query("UPDATE codigos_reset SET usado = true WHERE correo = $1", [correo]);
+
+    // Cerrar las sesiones abiertas con la contraseña anterior
+    for (const fila of actualizado.rows) {
+      await revocarTokensUsuario(client, fila.id_usuario);
     }
 
     await client.query('COMMIT');
-    res.status(201).json({ mensaje: 'Artículo publicado con éxito', ID_publicacion: idPublicacion });
 
+    res.json({ mensaje: "Contraseña actualizada correctamente" });
   } catch (error) {
     await client.query('ROLLBACK');
-    console.error('Error al publicar artículo:', error);
-    res.status(500).json({ error: 'Error al publicar el artículo' });
+    console.error("❌ Error actualizando contraseña:", error);
+    res.status(500).json({ mensaje: "Error del servidor" });
   } finally {
     client.release();
   }
@@ -385,403 +1164,4025 @@ app.post('/publicar_articulo', async (req: Request, res: Response) => {
 
 
 
-// ==================== ENDPOINTS DE NOTIFICACIONES ====================
-// 📍 ENDPOINT: Obtener notificaciones del usuario (CORREGIDO)
-app.get('/notificaciones/:id_usuario', async (req, res) => {
-  try {
-    const { id_usuario } = req.params;
-
-    console.log(`📋 Solicitando notificaciones para usuario ${id_usuario}`);
+// ==================== ESTADOS DE PUBLICACIÓN ====================
+type EstadoPublicacion = 'borrador' | 'activa' | 'reservada' | 'vendida' | 'archivada' | 'retirada_admin';
 
-    const result = await pool.query(
-      `SELECT 
-        ID_notificacion as id_notificacion,  -- ALIAS para que coincida con el frontend
-        titulo,
-        cuerpo,
-        leida,
-        fecha_envio,
-        data
-       FROM notificaciones 
-       WHERE ID_usuario = $1 
-       ORDER BY fecha_envio DESC 
-       LIMIT 50`,
-      [id_usuario]
-    );
+// Transiciones que puede hacer el vendedor; retirada_admin solo la aplica un administrador
+const TRANSICIONES_PUBLICACION: Record<EstadoPublicacion, EstadoPublicacion[]> = {
+  borrador: ['activa', 'archivada'],
+  activa: ['reservada', 'vendida', 'archivada'],
+  reservada: ['activa', 'vendida', 'archivada'],
+  archivada: ['activa'],
+  vendida: [],
+  retirada_admin: [],
+};
 
-    console.log(`✅ ${result.rows.length} notificaciones encontradas para usuario ${id_usuario}`);
-    
-    // Log para debugging
-    if (result.rows.length > 0) {
-      console.log('📝 Ejemplo de notificación:', {
-        id: result.rows[0].id_notificacion,
-        titulo: result.rows[0].titulo,
-        leida: result.rows[0].leida
-      });
-    }
+// hasOwnProperty y no `in`: 'constructor' o '__proto__' no son estados
+const esEstadoPublicacion = (estado: unknown): estado is EstadoPublicacion =>
+  typeof estado === 'string' && Object.prototype.hasOwnProperty.call(TRANSICIONES_PUBLICACION, estado);
+
+// Cambiar el estado de una publicación dentro de una transacción y dejar registro en el historial
+async function cambiarEstadoPublicacion(
+  client: PoolClient,
+  idPublicacion: number,
+  estadoAnterior: EstadoPublicacion,
+  estadoNuevo: EstadoPublicacion,
+  actor: string
+) {
+  await client.query(
+    `UPDATE com_ventas
+     SET estado = $2,
+         fecha_estado = now(),
+         fecha_venta = CASE WHEN $2 = 'vendida' THEN now() ELSE fecha_venta END
+     WHERE ID_publicacion = $1`,
+    [idPublicacion, estadoNuevo]
+  );
+  await client.query(
+    `INSERT INTO historial_estados_publicacion (ID_publicacion, estado_anterior, estado_nuevo, actor)
+     VALUES ($1, $2, $3, $4)`,
+    [idPublicacion, estadoAnterior, estadoNuevo, actor]
+  );
+}
 
-    res.json(result.rows);
+// 📍 ENDPOINT: Cambiar estado de una publicación propia (publicar borrador, reservar, archivar...)
+// La venta se registra con /marcar-vendido/:id para notificar a los compradores
+app.put('/publicaciones/:id/estado', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  const { estado } = req.body as { estado: EstadoPublicacion };
 
-  } catch (error) {
-    console.error('❌ Error obteniendo notificaciones:', error);
-    res.status(500).json({ error: 'Error en el servidor' });
+  if (!esEstadoPublicacion(estado)) {
+    return res.status(400).json({ error: 'Estado inválido' });
+  }
+  if (estado === 'vendida') {
+    return res.status(400).json({ error: 'Usa /marcar-vendido/:id para registrar la venta' });
   }
-});
 
-// 📍 ENDPOINT: Marcar notificación como leída (CORREGIDO)
-app.put('/notificaciones/:id/leida', async (req, res) => {
-  try {
-    const { id } = req.params;
+  const client = await pool.connect();
 
-    console.log(`📌 Marcando notificación ${id} como leída`);
+  try {
+    await client.query('BEGIN');
 
-    const result = await pool.query(
-      `UPDATE notificaciones SET leida = true 
-       WHERE ID_notificacion = $1 
-       RETURNING ID_notificacion as id_notificacion, titulo, cuerpo, leida, fecha_envio, data`,
-      [id]
+    const pubRes = await client.query(
+      `SELECT ID_usuario AS id_usuario, estado, nombre_articulo, precio
+       FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE`,
+      [idPublicacion]
     );
+    if (pubRes.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Publicación no encontrada' });
+    }
 
-    if (result.rowCount === 0) {
-      console.log(`❌ Notificación ${id} no encontrada`);
-      return res.status(404).json({ error: 'Notificación no encontrada' });
+    const publicacion = pubRes.rows[0];
+    if (!esPropietario(req, publicacion.id_usuario)) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+    if (!TRANSICIONES_PUBLICACION[publicacion.estado as EstadoPublicacion].includes(estado)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: `No se puede pasar de ${publicacion.estado} a ${estado}` });
+    }
+    if (await tieneOrdenEnCurso(client, idPublicacion)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'La publicación tiene una orden en curso' });
     }
 
-    console.log(`✅ Notificación ${id} marcada como leída`);
-    res.json({ 
-      mensaje: 'Notificación marcada como leída', 
-      notificacion: result.rows[0] 
-    });
+    await cambiarEstadoPublicacion(client, idPublicacion, publicacion.estado, estado, `usuario:${req.usuario!.ID_usuario}`);
+    await client.query('COMMIT');
 
+    // Avisos en segundo plano: un fallo aquí no debe responder 500 tras el COMMIT.
+    // Al volver a activa también se revisan las alertas (el precio pudo bajar mientras estaba archivada)
+    if (estado === 'activa') {
+      notificarBusquedasGuardadas(idPublicacion)
+        .catch((error) => console.error('❌ Error notificando búsquedas guardadas:', error));
+      dispararAlertasPrecio(idPublicacion, publicacion.nombre_articulo, Number(publicacion.precio))
+        .catch((error) => console.error('❌ Error disparando alertas de precio:', error));
+    }
+
+    res.json({ mensaje: 'Estado actualizado', ID_publicacion: idPublicacion, estado });
   } catch (error) {
-    console.error('❌ Error marcando notificación como leída:', error);
+    await client.query('ROLLBACK');
+    console.error('❌ Error cambiando estado de publicación:', error);
     res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
   }
 });
 
+// ==================== CATEGORÍAS ====================
+// Categoría activa a partir de su ID o de un texto (nombre, slug o alias)
+async function resolverCategoria(tipo: TipoCategoria, valor: unknown) {
+  const porId = typeof valor === 'number' || (typeof valor === 'string' && /^\d+$/.test(valor));
+  // Un ID fuera del rango de INTEGER haría fallar el cast en la consulta: se trata como inexistente
+  if (porId && idEntero(valor) === null) return null;
+  const result = await pool.query(
+    `SELECT ID_categoria AS id_categoria, nombre FROM categorias c
+     WHERE c.tipo = $1 AND c.activa
+       AND (${porId
+         ? 'c.ID_categoria = $2::int'
+         : `c.slug = categoria_slug($2)
+            OR c.ID_categoria IN (SELECT ID_categoria FROM categorias_alias WHERE tipo = $1 AND alias = categoria_slug($2))`})
+     LIMIT 1`,
+    [tipo, String(valor)]
+  );
+  return (result.rows[0] as { id_categoria: number; nombre: string } | undefined) ?? null;
+}
 
+// Validar las categorías enviadas en el body (texto o ID_tipo_*). Devuelve las columnas a guardar
+// solo para los campos presentes, o el error a responder
+async function validarCategoriasBody(body: any) {
+  const columnas: Record<string, string | number | null> = {};
 
+  for (const tipo of Object.keys(COLUMNAS_CATEGORIA) as TipoCategoria[]) {
+    const { texto, id } = COLUMNAS_CATEGORIA[tipo];
+    const valor = body[id] ?? body[texto];
+    if (valor === undefined) continue;
 
+    if (valor === null || valor === '') {
+      columnas[texto] = null;
+      columnas[id] = null;
+      continue;
+    }
 
-// Función para guardar notificación en BD (MEJORADA)
-async function guardarNotificacionBD(ID_usuario: number, titulo: string, cuerpo: string, data: any = null) {
-  try {
-    console.log(`💾 Guardando notificación para usuario ${ID_usuario}:`, { titulo, cuerpo });
-    
-    const result = await pool.query(
-      `INSERT INTO notificaciones (ID_usuario, titulo, cuerpo, data) 
-       VALUES ($1, $2, $3, $4) 
-       RETURNING ID_notificacion`,
-      [ID_usuario, titulo, cuerpo, data ? JSON.stringify(data) : null]
-    );
-    
-    const idNotificacion = result.rows[0].id_notificacion;
-    console.log(`✅ Notificación guardada en BD con ID: ${idNotificacion}`);
-    return result.rows[0];
-    
-  } catch (error) {
-    console.error('❌ Error guardando notificación en BD:', error);
-    
-    // Log detallado del error
-    if (error) { // Foreign key violation
-      console.error('🔍 El usuario no existe en la base de datos');
+    const categoria = await resolverCategoria(tipo, valor);
+    if (!categoria) {
+      return { error: `${texto} no es una categoría válida; consulta GET /categorias` };
     }
-    
-    throw error;
+    columnas[texto] = categoria.nombre;
+    columnas[id] = categoria.id_categoria;
   }
+  return { columnas };
 }
 
-// 📍 ENDPOINT: Agregar al carrito (CON MÁS LOGS)
-app.post('/agregar-carrito', async (req: Request, res: Response) => {
-  try {
-    const { ID_usuario, ID_publicacion } = req.body;
-    console.log('🛒 Agregando al carrito - Usuario:', ID_usuario, 'Publicación:', ID_publicacion);
-
-    if (!ID_usuario || !ID_publicacion) {
-      return res.status(400).json({ error: 'IDs de usuario y publicación son obligatorios' });
-    }
+// IDs de una categoría y todos sus descendientes (filtrar por "Transmisión" incluye "Cadena")
+async function idsSubarbolCategoria(ID_categoria: number) {
+  const result = await pool.query(
+    `WITH RECURSIVE arbol AS (
+       SELECT ID_categoria FROM categorias WHERE ID_categoria = $1
+       UNION ALL
+       SELECT c.ID_categoria FROM categorias c JOIN arbol a ON c.ID_padre = a.ID_categoria
+     )
+     SELECT ID_categoria AS id_categoria FROM arbol`,
+    [ID_categoria]
+  );
+  return result.rows.map((r) => r.id_categoria as number);
+}
 
-    // Verificar existencia
-    const verificacion = await pool.query(
-      `SELECT 
-        (SELECT 1 FROM usuario WHERE ID_usuario = $1) AS usuario_existe,
-        (SELECT 1 FROM com_ventas WHERE ID_publicacion = $2) AS articulo_existe,
-        (SELECT 1 FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2) AS en_carrito`,
-      [ID_usuario, ID_publicacion]
-    );
+// Parámetros posicionales que se numeran a medida que se arma la consulta
+const crearParametros = () => {
+  const valores: any[] = [];
+  const param = (valor: unknown) => {
+    valores.push(valor);
+    return `$${valores.length}`;
+  };
+  return { valores, param };
+};
 
-    const { usuario_existe, articulo_existe, en_carrito } = verificacion.rows[0];
+// Filtro por categoría: si el valor es del catálogo se filtra por ID sobre su subárbol (incluye
+// subcategorías y alias); si no, por el texto libre de las publicaciones antiguas.
+// Devuelve un constructor de la condición para las consultas que arman sus parámetros varias veces
+async function filtroCategoria(tipo: TipoCategoria, valor: unknown, alias = 'cv') {
+  const { texto, id } = COLUMNAS_CATEGORIA[tipo];
+  const categoria = await resolverCategoria(tipo, valor);
+  const ids = categoria ? await idsSubarbolCategoria(categoria.id_categoria) : null;
+  return (param: (valor: unknown) => string) =>
+    ids ? `${alias}.${id} = ANY(${param(ids)}::int[])` : `LOWER(${alias}.${texto}) = LOWER(${param(valor)})`;
+}
 
-    if (!usuario_existe) return res.status(404).json({ error: 'Usuario no encontrado' });
-    if (!articulo_existe) return res.status(404).json({ error: 'Artículo no encontrado' });
-    if (en_carrito) return res.status(409).json({ error: 'Artículo ya está en el carrito' });
+// Anidar filas planas en árbol por ID_padre
+function construirArbolCategorias(filas: any[]) {
+  const nodos = new Map<number, any>(filas.map((f) => [f.id_categoria, { ...f, hijos: [] }]));
+  const raices: any[] = [];
+  for (const nodo of nodos.values()) {
+    const padre = nodo.id_padre ? nodos.get(nodo.id_padre) : null;
+    (padre ? padre.hijos : raices).push(nodo);
+  }
+  return raices;
+}
 
-    // Obtener datos del artículo y vendedor
-    const datosArticulo = await pool.query(
-      `SELECT cv.nombre_articulo, cv.ID_usuario as id_vendedor, u.nombre as nombre_vendedor
-       FROM com_ventas cv
-       JOIN usuario u ON cv.ID_usuario = u.ID_usuario
-       WHERE cv.ID_publicacion = $1`,
-      [ID_publicacion]
+// 📍 ENDPOINT: Árbol público de categorías activas por tipo
+app.get('/categorias', async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT ID_categoria AS id_categoria, tipo, nombre, slug, ID_padre AS id_padre
+       FROM categorias WHERE activa
+       ORDER BY orden, nombre`
     );
+    res.json({
+      bicicleta: construirArbolCategorias(result.rows.filter((c) => c.tipo === 'bicicleta')),
+      componente: construirArbolCategorias(result.rows.filter((c) => c.tipo === 'componente')),
+    });
+  } catch (error) {
+    console.error('❌ Error obteniendo categorías:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
 
-    if (datosArticulo.rows.length === 0) {
-      return res.status(404).json({ error: 'Artículo no encontrado' });
-    }
-
-    const articulo = datosArticulo.rows[0];
-    console.log(`📦 Artículo: ${articulo.nombre_articulo}, Vendedor: ${articulo.id_vendedor}`);
+// ==================== BÚSQUEDAS GUARDADAS Y ALERTAS DE PRECIO ====================
+const MAX_BUSQUEDAS_GUARDADAS = 20;
+
+// Una categoría y sus ancestros: una búsqueda de "Transmisión" coincide con una publicación de "Cadena"
+async function idsAncestrosCategoria(ID_categoria: number | null) {
+  if (!ID_categoria) return [];
+  const result = await pool.query(
+    `WITH RECURSIVE ancestros AS (
+       SELECT ID_categoria, ID_padre FROM categorias WHERE ID_categoria = $1
+       UNION ALL
+       SELECT c.ID_categoria, c.ID_padre FROM categorias c JOIN ancestros a ON c.ID_categoria = a.ID_padre
+     )
+     SELECT ID_categoria AS id_categoria FROM ancestros`,
+    [ID_categoria]
+  );
+  return result.rows.map((r) => r.id_categoria as number);
+}
 
-    // Insertar en carrito
-    await pool.query(
-      'INSERT INTO carrito (ID_usuario, ID_publicacion) VALUES ($1, $2)',
-      [ID_usuario, ID_publicacion]
+// Avisar a los usuarios con búsquedas que coinciden con una publicación recién activada
+async function notificarBusquedasGuardadas(idPublicacion: number) {
+  try {
+    const pubRes = await pool.query(
+      `SELECT ID_usuario AS id_usuario, nombre_articulo, precio,
+              ID_tipo_bicicleta AS id_tipo_bicicleta, ID_tipo_componente AS id_tipo_componente
+       FROM com_ventas WHERE ID_publicacion = $1 AND estado = 'activa'`,
+      [idPublicacion]
+    );
+    const publicacion = pubRes.rows[0];
+    if (!publicacion) return;
+
+    const coincidencias = await pool.query(
+      `WITH candidatas AS (
+         SELECT b.ID_busqueda, b.ID_usuario
+         FROM busquedas_guardadas b, com_ventas cv
+         WHERE cv.ID_publicacion = $1
+           AND b.ID_usuario <> cv.ID_usuario
+           AND (b.precio_max IS NULL OR cv.precio <= b.precio_max)
+           AND (b.ID_tipo_bicicleta IS NULL OR b.ID_tipo_bicicleta = ANY($2::int[]))
+           AND (b.ID_tipo_componente IS NULL OR b.ID_tipo_componente = ANY($3::int[]))
+           AND (b.texto IS NULL OR ${DOCUMENTO_BUSQUEDA} @@ plainto_tsquery('spanish', busqueda_unaccent(b.texto)))
+       ), nuevas AS (
+         INSERT INTO coincidencias_busqueda (ID_busqueda, ID_publicacion)
+         SELECT ID_busqueda, $1 FROM candidatas
+         ON CONFLICT DO NOTHING
+         RETURNING ID_busqueda
+       )
+       SELECT DISTINCT c.ID_usuario AS id_usuario
+       FROM candidatas c JOIN nuevas n ON n.ID_busqueda = c.ID_busqueda`,
+      [
+        idPublicacion,
+        await idsAncestrosCategoria(publicacion.id_tipo_bicicleta),
+        await idsAncestrosCategoria(publicacion.id_tipo_componente),
+      ]
     );
 
-    console.log('✅ Artículo agregado al carrito');
-
-    // Crear notificación para el VENDEDOR
-    if (articulo.id_vendedor && articulo.id_vendedor !== ID_usuario) {
-      console.log(`👤 Creando notificación para vendedor: ${articulo.id_vendedor}`);
-      
+    for (const { id_usuario } of coincidencias.rows) {
       await guardarNotificacionBD(
-        articulo.id_vendedor,
-        '¡Nuevo interés en tu artículo! 🛒',
-        `Alguien agregó "${articulo.nombre_articulo}" al carrito. Revisa tus ventas.`,
+        id_usuario,
+        'Nuevo artículo para tu búsqueda 🔔',
+        `"${publicacion.nombre_articulo}" por $${Number(publicacion.precio).toLocaleString('es-CO')} coincide con una búsqueda que guardaste.`,
         {
-          tipo: 'interes_carrito',
-          ID_publicacion: ID_publicacion,
-          nombre_articulo: articulo.nombre_articulo,
+          tipo: 'busqueda_guardada',
+          ID_publicacion: idPublicacion,
+          nombre_articulo: publicacion.nombre_articulo,
+          precio: publicacion.precio,
           timestamp: new Date().toISOString()
         }
       );
-      console.log(`✅ Notificación creada para vendedor ${articulo.nombre_vendedor} (ID: ${articulo.id_vendedor})`);
-    } else {
-      console.log('ℹ️ No se crea notificación (mismo usuario o vendedor no encontrado)');
     }
+  } catch (error) {
+    console.error('❌ Error notificando búsquedas guardadas:', error);
+  }
+}
 
-    res.status(201).json({ 
-      mensaje: 'Artículo agregado al carrito correctamente',
-      notificacion_creada: !!articulo.id_vendedor && articulo.id_vendedor !== ID_usuario
-    });
+// Disparar (una sola vez) las alertas cuyo precio objetivo ya se alcanzó; devuelve los usuarios avisados
+async function dispararAlertasPrecio(idPublicacion: number, nombreArticulo: string, precio: number) {
+  const result = await pool.query(
+    `UPDATE alertas_precio SET activa = false, fecha_disparo = now()
+     WHERE ID_publicacion = $1 AND activa AND precio_objetivo >= $2
+     RETURNING ID_usuario AS id_usuario, precio_objetivo`,
+    [idPublicacion, precio]
+  );
 
-  } catch (error: any) {
-    console.error('❌ Error al agregar al carrito:', error);
-    res.status(500).json({ error: 'Error en el servidor' });
+  for (const alerta of result.rows) {
+    await guardarNotificacionBD(
+      alerta.id_usuario,
+      '¡Llegó a tu precio! 🎯',
+      `"${nombreArticulo}" ahora cuesta $${precio.toLocaleString('es-CO')} (tu alerta: $${Number(alerta.precio_objetivo).toLocaleString('es-CO')}).`,
+      {
+        tipo: 'alerta_precio',
+        ID_publicacion: idPublicacion,
+        nombre_articulo: nombreArticulo,
+        precio_nuevo: precio,
+        precio_objetivo: alerta.precio_objetivo,
+        timestamp: new Date().toISOString()
+      }
+    );
   }
-});
+  return result.rows.map((a) => a.id_usuario as number);
+}
 
+// 📍 ENDPOINT: Guardar una búsqueda. Body: { texto?, tipo_bicicleta?, tipo_componente?, precio_max? }
+app.post('/busquedas-guardadas', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const texto = typeof req.body.texto === 'string' && req.body.texto.trim() ? req.body.texto.trim() : null;
+  const precioMax = req.body.precio_max ?? null;
+
+  if (precioMax !== null && (isNaN(Number(precioMax)) || Number(precioMax) <= 0)) {
+    return res.status(400).json({ error: 'precio_max inválido' });
+  }
 
-// 📍 ENDPOINT: Probar notificaciones manualmente
-app.post('/probar-notificacion', async (req: Request, res: Response) => {
   try {
-    const { ID_usuario, mensaje } = req.body;
+    const categorias = await validarCategoriasBody(req.body);
+    if (categorias.error) return res.status(400).json({ error: categorias.error });
+    const { ID_tipo_bicicleta = null, ID_tipo_componente = null } = categorias.columnas!;
 
-    if (!ID_usuario) {
-      return res.status(400).json({ error: 'ID_usuario es obligatorio' });
+    if (!texto && !ID_tipo_bicicleta && !ID_tipo_componente && precioMax === null) {
+      return res.status(400).json({ error: 'La búsqueda necesita al menos un criterio' });
     }
 
-    console.log(`🧪 Probando notificación para usuario ${ID_usuario}`);
+    const total = await pool.query('SELECT COUNT(*)::int AS total FROM busquedas_guardadas WHERE ID_usuario = $1', [ID_usuario]);
+    if (total.rows[0].total >= MAX_BUSQUEDAS_GUARDADAS) {
+      return res.status(409).json({ error: `Máximo ${MAX_BUSQUEDAS_GUARDADAS} búsquedas guardadas` });
+    }
 
-    await guardarNotificacionBD(
-      ID_usuario,
-      'Notificación de prueba ✅',
-      mensaje || '¡Esta es una notificación de prueba!',
-      {
-        tipo: 'test',
-        timestamp: new Date().toISOString()
-      }
+    const result = await pool.query(
+      `INSERT INTO busquedas_guardadas (ID_usuario, texto, ID_tipo_bicicleta, ID_tipo_componente, precio_max)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ID_busqueda AS id_busqueda, texto, ID_tipo_bicicleta AS id_tipo_bicicleta,
+                 ID_tipo_componente AS id_tipo_componente, precio_max, fecha_creacion`,
+      [ID_usuario, texto, ID_tipo_bicicleta, ID_tipo_componente, precioMax]
     );
-
-    res.json({ 
-      mensaje: 'Notificación de prueba creada correctamente',
-      ID_usuario: ID_usuario
-    });
-
-  } catch (error: any) {
-    console.error('❌ Error en prueba de notificación:', error);
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error guardando búsqueda:', error);
     res.status(500).json({ error: 'Error en el servidor' });
   }
 });
-// 📍 ENDPOINT: Marcar como vendido (versión simplificada)
-app.delete('/marcar-vendido/:id', async (req: Request, res: Response) => {
-  const idPublicacion = Number(req.params.id);
-  
-  try {
-    console.log(`💰 Marcando como vendido publicación ${idPublicacion}`);
 
-    // Obtener datos de la publicación
-    const pubRes = await pool.query(
-      'SELECT nombre_articulo, ID_usuario FROM com_ventas WHERE ID_publicacion = $1', 
-      [idPublicacion]
+// 📍 ENDPOINT: Búsquedas guardadas del usuario
+app.get('/busquedas-guardadas', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT b.ID_busqueda AS id_busqueda, b.texto, b.precio_max, b.fecha_creacion,
+              b.ID_tipo_bicicleta AS id_tipo_bicicleta, cb.nombre AS tipo_bicicleta,
+              b.ID_tipo_componente AS id_tipo_componente, cc.nombre AS tipo_componente,
+              (SELECT COUNT(*)::int FROM coincidencias_busqueda c WHERE c.ID_busqueda = b.ID_busqueda) AS coincidencias
+       FROM busquedas_guardadas b
+       LEFT JOIN categorias cb ON cb.ID_categoria = b.ID_tipo_bicicleta
+       LEFT JOIN categorias cc ON cc.ID_categoria = b.ID_tipo_componente
+       WHERE b.ID_usuario = $1
+       ORDER BY b.ID_busqueda DESC`,
+      [req.usuario!.ID_usuario]
     );
-    
-    if (pubRes.rowCount === 0) return res.status(404).json({ error: 'Publicación no encontrada' });
-    
-    const publicacion = pubRes.rows[0];
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error obteniendo búsquedas guardadas:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Eliminar una búsqueda guardada
+app.delete('/busquedas-guardadas/:id', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM busquedas_guardadas WHERE ID_busqueda = $1 AND ID_usuario = $2',
+      [req.params.id, req.usuario!.ID_usuario]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Búsqueda no encontrada' });
+    }
+    res.json({ mensaje: 'Búsqueda eliminada' });
+  } catch (error) {
+    console.error('❌ Error eliminando búsqueda guardada:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Crear o cambiar la alerta de precio de una publicación. Body: { ID_publicacion, precio_objetivo }
+app.post('/alertas-precio', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const ID_publicacion = idEntero(req.body.ID_publicacion);
+  const precioObjetivo = Number(req.body.precio_objetivo);
+
+  if (!ID_publicacion || isNaN(precioObjetivo) || precioObjetivo <= 0) {
+    return res.status(400).json({ error: 'ID_publicacion y precio_objetivo son obligatorios' });
+  }
+
+  try {
+    const pubRes = await pool.query(
+      "SELECT ID_usuario AS id_usuario, precio FROM com_ventas WHERE ID_publicacion = $1 AND estado = 'activa'",
+      [ID_publicacion]
+    );
+    const publicacion = pubRes.rows[0];
+    if (!publicacion) {
+      return res.status(404).json({ error: 'Publicación no encontrada' });
+    }
+    if (publicacion.id_usuario === ID_usuario) {
+      return res.status(400).json({ error: 'No puedes crear alertas para tus propias publicaciones' });
+    }
+    if (Number(publicacion.precio) <= precioObjetivo) {
+      return res.status(400).json({ error: 'La publicación ya está a ese precio o menos' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO alertas_precio (ID_usuario, ID_publicacion, precio_objetivo)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (ID_usuario, ID_publicacion) DO UPDATE
+       SET precio_objetivo = EXCLUDED.precio_objetivo, activa = true, fecha_disparo = NULL
+       RETURNING ID_alerta AS id_alerta, ID_publicacion AS id_publicacion, precio_objetivo, activa, fecha_creacion`,
+      [ID_usuario, ID_publicacion, precioObjetivo]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error creando alerta de precio:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Alertas de precio del usuario con el precio actual
+app.get('/alertas-precio', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT a.ID_alerta AS id_alerta, a.ID_publicacion AS id_publicacion, a.precio_objetivo, a.activa,
+              a.fecha_creacion, a.fecha_disparo, cv.nombre_articulo, cv.precio AS precio_actual, cv.estado
+       FROM alertas_precio a
+       JOIN com_ventas cv ON cv.ID_publicacion = a.ID_publicacion
+       WHERE a.ID_usuario = $1
+       ORDER BY a.activa DESC, a.ID_alerta DESC`,
+      [req.usuario!.ID_usuario]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error obteniendo alertas de precio:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Eliminar una alerta de precio
+app.delete('/alertas-precio/:id', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM alertas_precio WHERE ID_alerta = $1 AND ID_usuario = $2',
+      [req.params.id, req.usuario!.ID_usuario]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Alerta no encontrada' });
+    }
+    res.json({ mensaje: 'Alerta eliminada' });
+  } catch (error) {
+    console.error('❌ Error eliminando alerta de precio:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// ==================== BÚSQUEDA DEL MARKETPLACE ====================
+const ORDENES_BUSQUEDA = ['relevancia', 'precio_asc', 'precio_desc', 'recientes'];
+const LIMITE_BUSQUEDA_DEFECTO = 20;
+const LIMITE_BUSQUEDA_MAXIMO = 50;
+const PARAMETROS_BUSQUEDA = [
+  'q', 'nombre', 'precio_min', 'precio_max', 'tipo_bicicleta', 'tipo_componente', 'vendedor', 'orden', 'limite', 'cursor',
+];
+
+// Convierte el texto del usuario en un tsquery con prefijos: "rin aro" -> "rin:* & aro:*"
+const construirConsultaTexto = (texto: string) =>
+  texto
+    .split(/\s+/)
+    .map((palabra) => palabra.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+    .map((palabra) => `${palabra}:*`)
+    .join(' & ');
+
+// 🔍 Búsqueda con ranking de texto, filtros, facetas y paginación por cursor
+// Query: q, precio_min, precio_max, tipo_bicicleta, tipo_componente, vendedor,
+//        orden (relevancia|precio_asc|precio_desc|recientes), limite, cursor
+// Compatibilidad: ?nombre= equivale a q y responde solo el arreglo de resultados, como antes
+app.get('/buscar', async (req: Request, res: Response) => {
+  // Un parámetro repetido (?nombre=a&nombre=b) llega como arreglo y no debe pasar a la consulta
+  for (const parametro of PARAMETROS_BUSQUEDA) {
+    if (req.query[parametro] !== undefined && typeof req.query[parametro] !== 'string') {
+      return res.status(400).json({ error: `El parámetro "${parametro}" debe aparecer una sola vez` });
+    }
+  }
+
+  const { precio_min, precio_max, tipo_bicicleta, tipo_componente, vendedor, cursor, nombre } = req.query as Record<string, string | undefined>;
+  const formatoClasico = req.query.q === undefined && nombre !== undefined;
+  const q = formatoClasico ? nombre : req.query.q;
+
+  if (formatoClasico && (typeof nombre !== 'string' || nombre.trim() === '')) {
+    return res.status(400).json({ error: 'El parámetro "nombre" es obligatorio' });
+  }
+
+  const consultaTexto = typeof q === 'string' ? construirConsultaTexto(q) : '';
+  const orden = (req.query.orden as string) || (consultaTexto ? 'relevancia' : 'recientes');
+  const limite = Math.min(
+    Math.max(Math.trunc(Number(req.query.limite)) || LIMITE_BUSQUEDA_DEFECTO, 1),
+    LIMITE_BUSQUEDA_MAXIMO
+  );
+
+  if (!ORDENES_BUSQUEDA.includes(orden)) {
+    return res.status(400).json({ error: `orden debe ser uno de: ${ORDENES_BUSQUEDA.join(', ')}` });
+  }
+  if (orden === 'relevancia' && !consultaTexto) {
+    return res.status(400).json({ error: 'El orden por relevancia requiere el parámetro q' });
+  }
+  for (const [parametro, valor] of [['precio_min', precio_min], ['precio_max', precio_max]]) {
+    if (valor !== undefined && !Number.isFinite(Number(valor))) {
+      return res.status(400).json({ error: `${parametro} debe ser numérico` });
+    }
+  }
+  if (vendedor !== undefined && idEntero(vendedor) === null) {
+    return res.status(400).json({ error: 'vendedor debe ser un entero positivo' });
+  }
+
+  // El cursor lleva el orden con el que se generó: [orden, valor_orden, ID_publicacion]
+  const posicion = decodificarCursor(cursor);
+  if (
+    cursor !== undefined &&
+    (!posicion ||
+      posicion.length !== 3 ||
+      !['number', 'string'].includes(typeof posicion[1]) ||
+      !Number.isFinite(Number(posicion[1])) ||
+      !Number.isSafeInteger(posicion[2]))
+  ) {
+    return res.status(400).json({ error: 'Cursor inválido' });
+  }
+  if (posicion && posicion[0] !== orden) {
+    return res.status(400).json({ error: 'El cursor no corresponde al orden solicitado' });
+  }
+
+  let filtroBicicleta, filtroComponente;
+  try {
+    filtroBicicleta = tipo_bicicleta ? await filtroCategoria('bicicleta', tipo_bicicleta) : null;
+    filtroComponente = tipo_componente ? await filtroCategoria('componente', tipo_componente) : null;
+  } catch (error) {
+    console.error('❌ Error resolviendo categorías de búsqueda:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  }
+
+  const documento = DOCUMENTO_BUSQUEDA.replace(/nombre_articulo|descripcion/g, 'cv.$&');
+
+  // Condiciones de filtro; las facetas excluyen su propio filtro para mostrar las alternativas
+  const construirFiltros = (param: (valor: unknown) => string, excluir?: string) => {
+    const filtros: Record<string, () => string> = {};
+    if (consultaTexto) filtros.texto = () => `${documento} @@ to_tsquery('spanish', busqueda_unaccent(${param(consultaTexto)}))`;
+    if (precio_min !== undefined) filtros.precio_min = () => `cv.precio >= ${param(Number(precio_min))}`;
+    if (precio_max !== undefined) filtros.precio_max = () => `cv.precio <= ${param(Number(precio_max))}`;
+    if (filtroBicicleta) filtros.tipo_bicicleta = () => filtroBicicleta(param);
+    if (filtroComponente) filtros.tipo_componente = () => filtroComponente(param);
+    if (vendedor !== undefined) filtros.vendedor = () => `cv.ID_usuario = ${param(Number(vendedor))}`;
+
+    const condiciones = Object.entries(filtros)
+      .filter(([clave]) => clave !== excluir)
+      .map(([, condicion]) => condicion());
+    return ["cv.estado = 'activa'", ...condiciones].join(' AND ');
+  };
+
+  const consultaFacetas = (columna: 'tipo_bicicleta' | 'tipo_componente') => {
+    const { valores, param } = crearParametros();
+    return pool.query(
+      `SELECT cv.${columna} AS valor, COUNT(*)::int AS total
+       FROM com_ventas cv
+       WHERE ${construirFiltros(param, columna)} AND cv.${columna} IS NOT NULL
+       GROUP BY cv.${columna}
+       ORDER BY total DESC`,
+      valores
+    );
+  };
+
+  const { valores, param } = crearParametros();
+  const rangoTexto = consultaTexto
+    ? `ts_rank(${documento}, to_tsquery('spanish', busqueda_unaccent(${param(consultaTexto)})))`
+    : '0::real';
+
+  const ordenamientos: Record<string, { expresion: string; direccion: 'ASC' | 'DESC'; tipo: string }> = {
+    relevancia: { expresion: rangoTexto, direccion: 'DESC', tipo: 'real' },
+    precio_asc: { expresion: 'cv.precio', direccion: 'ASC', tipo: 'numeric' },
+    precio_desc: { expresion: 'cv.precio', direccion: 'DESC', tipo: 'numeric' },
+    recientes: { expresion: 'cv.ID_publicacion', direccion: 'DESC', tipo: 'int' },
+  };
+  const { expresion, direccion, tipo } = ordenamientos[orden];
+  const comparador = direccion === 'DESC' ? '<' : '>';
+
+  const condiciones = [construirFiltros(param)];
+  if (posicion) {
+    condiciones.push(
+      `(${expresion}, cv.ID_publicacion) ${comparador} (${param(posicion[1])}::${tipo}, ${param(posicion[2])}::int)`
+    );
+  }
+
+  try {
+    const [resultado, facetasBicicleta, facetasComponente] = await Promise.all([
+      pool.query(
+        `SELECT 
+          cv.ID_publicacion AS id,
+          cv.nombre_articulo,
+          cv.descripcion,
+          cv.precio,
+          cv.tipo_bicicleta,
+          cv.tipo_componente,
+          cv.ID_usuario AS id_vendedor,
+          u.nombre AS nombre_vendedor,
+          CASE WHEN u.ocultar_telefono THEN NULL ELSE u.telefono END AS telefono,
+          u.ocultar_telefono AS solo_chat,
+          u.foto,
+          COALESCE(cal.promedio, 0) AS calificacion_vendedor,
+          COALESCE(cal.total, 0) AS total_resenas_vendedor,
+          COALESCE(
+            (SELECT json_agg(${fotoVariantesSQL('cvf')} ORDER BY cvf.orden NULLS LAST, cvf.id_foto) FROM com_ventas_fotos cvf
+             WHERE cvf.ID_publicacion = cv.ID_publicacion),
+            '[]'
+          ) AS fotos,
+          ${rangoTexto} AS relevancia,
+          ${expresion} AS valor_orden
+        FROM com_ventas cv
+        JOIN usuario u ON cv.ID_usuario = u.ID_usuario
+        LEFT JOIN calificaciones_vendedor cal ON cal.ID_vendedor = cv.ID_usuario
+        WHERE ${condiciones.join(' AND ')}
+        ORDER BY ${expresion} ${direccion}, cv.ID_publicacion ${direccion}
+        LIMIT ${param(limite + 1)}`,
+        valores
+      ),
+      consultaFacetas('tipo_bicicleta'),
+      consultaFacetas('tipo_componente'),
+    ]);
+
+    const hayMas = resultado.rows.length > limite;
+    const filas = resultado.rows.slice(0, limite);
+    const ultima = filas[filas.length - 1];
+    const resultados = filas.map(({ valor_orden, ...publicacion }) => publicacion);
+
+    if (formatoClasico) {
+      return res.status(200).json(resultados);
+    }
+
+    res.json({
+      resultados,
+      facetas: {
+        tipo_bicicleta: facetasBicicleta.rows,
+        tipo_componente: facetasComponente.rows,
+      },
+      siguiente_cursor: hayMas ? codificarCursor([orden, ultima.valor_orden, ultima.id]) : null,
+    });
+  } catch (error) {
+    console.error('❌ Error en la búsqueda:', error);
+    res.status(500).json({ error: 'Error interno del servidor' });
+  }
+});
+
+// ==================== FOTOS DE PUBLICACIONES ====================
+const PREFIJO_URL_PUBLICA = '/storage/v1/object/public/articulos/';
+
+// Tamaños guardados por cada foto; 'completa' sigue en url_foto para no romper filas antiguas
+const VARIANTES_FOTO = [
+  { nombre: 'miniatura', columna: 'url_miniatura', ancho: 200, alto: 200, fit: 'cover' },
+  { nombre: 'tarjeta', columna: 'url_tarjeta', ancho: 600, alto: 600, fit: 'inside' },
+  { nombre: 'completa', columna: 'url_foto', ancho: 1600, alto: 1600, fit: 'inside' },
+] as const;
+
+type ColumnaVariante = typeof VARIANTES_FOTO[number]['columna'];
+
+// Errores de validación de la imagen (se responden con 400)
+class FotoInvalidaError extends Error {}
+
+// Tipo real según los primeros bytes; el tipo declarado en la data URL no se usa
+function detectarTipoImagen(buffer: Buffer): 'jpeg' | 'png' | 'webp' | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+// Validar tamaño y firma de imagen de los bytes recibidos
+function validarFoto(buffer: Buffer) {
+  if (buffer.length > MAX_BYTES_FOTO) {
+    throw new FotoInvalidaError(`Cada foto debe pesar máximo ${MAX_BYTES_FOTO / (1024 * 1024)} MB`);
+  }
+  if (!detectarTipoImagen(buffer)) {
+    throw new FotoInvalidaError('Solo se aceptan imágenes JPEG, PNG o WebP');
+  }
+  return buffer;
+}
+
+// Data URL base64 → buffer validado
+function decodificarFoto(foto: string) {
+  if (!/^data:image\/[\w.+-]+;base64,/.test(foto)) {
+    throw new FotoInvalidaError('Formato de imagen inválido');
+  }
+  return validarFoto(Buffer.from(foto.slice(foto.indexOf(',') + 1), 'base64'));
+}
+
+// Reencodar a WebP en cada tamaño. sharp no copia EXIF/GPS salvo que se pida con withMetadata()
+async function procesarFotoPublicacion(original: Buffer) {
+  try {
+    return await Promise.all(VARIANTES_FOTO.map(async (variante) => ({
+      ...variante,
+      contenido: await sharp(original, { limitInputPixels: MAX_PIXELES_FOTO })
+        .rotate()
+        .resize(variante.ancho, variante.alto, { fit: variante.fit, withoutEnlargement: variante.fit === 'inside' })
+        .webp({ quality: 80 })
+        .toBuffer(),
+    })));
+  } catch (error) {
+    console.error('❌ Error procesando imagen:', error);
+    throw new FotoInvalidaError('La imagen está dañada o es demasiado grande');
+  }
+}
+
+// Subir todas las variantes de una foto ya procesada y devolver sus URLs públicas por columna
+const rutaFotoPublicacion = (idPublicacion: number, nombre: string, variante: string) =>
+  `publicaciones/${idPublicacion}/${nombre}_${variante}.webp`;
+
+async function subirFotoPublicacion(
+  idPublicacion: number,
+  variantes: Awaited<ReturnType<typeof procesarFotoPublicacion>>,
+  nombre: string
+) {
+  const urls = {} as Record<ColumnaVariante, string>;
+
+  for (const variante of variantes) {
+    const nombreArchivo = rutaFotoPublicacion(idPublicacion, nombre, variante.nombre);
+
+    const { error: uploadError } = await supabase.storage
+      .from('articulos')
+      .upload(nombreArchivo, variante.contenido, { contentType: 'image/webp', upsert: true });
+
+    if (uploadError) throw uploadError;
+
+    urls[variante.columna] = supabase.storage.from('articulos').getPublicUrl(nombreArchivo).data.publicUrl;
+  }
+
+  return urls;
+}
+
+// Guardar en BD la fila de una foto con todas sus variantes
+const insertarFotoPublicacion = (
+  db: Pool | PoolClient,
+  idPublicacion: number,
+  urls: Record<ColumnaVariante, string>,
+  orden: number
+) =>
+  db.query(
+    `INSERT INTO com_ventas_fotos (ID_publicacion, url_foto, url_tarjeta, url_miniatura, orden)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [idPublicacion, urls.url_foto, urls.url_tarjeta, urls.url_miniatura, orden]
+  );
+
+// Objeto JSON con las variantes de una foto (las filas antiguas solo tienen url_foto)
+const fotoVariantesSQL = (alias: string) =>
+  `json_build_object('id_foto', ${alias}.id_foto, 'miniatura', COALESCE(${alias}.url_miniatura, ${alias}.url_foto), ` +
+  `'tarjeta', COALESCE(${alias}.url_tarjeta, ${alias}.url_foto), 'completa', ${alias}.url_foto)`;
+
+// Ruta del objeto dentro del bucket 'articulos' a partir de su URL pública
+const rutaDesdeUrlPublica = (url: string | null) => {
+  if (!url) return null;
+  const indice = url.indexOf(PREFIJO_URL_PUBLICA);
+  return indice === -1 ? null : decodeURIComponent(url.slice(indice + PREFIJO_URL_PUBLICA.length));
+};
+
+// ==================== SUBIDAS DIRECTAS AL BUCKET ====================
+// El cliente sube a una URL firmada y luego envía la clave en vez del base64.
+// Supabase mantiene vigente la URL firmada 2 horas; la clave se acepta el mismo tiempo
+const PREFIJO_SUBIDAS = 'subidas/';
+const SUBIDA_VIGENCIA_MINUTOS = 120;
+const MAX_SUBIDAS_ANONIMAS_HORA = 10;
+const PROPOSITOS_SUBIDA = ['publicacion', 'avatar'] as const;
+
+type PropositoSubida = typeof PROPOSITOS_SUBIDA[number];
+
+// Las URLs firmadas no admiten límite de tamaño: se fija en el bucket para que Storage
+// rechace subidas mayores a MAX_BYTES_FOTO (las variantes procesadas pesan mucho menos)
+async function configurarLimiteBucket() {
+  const { data, error } = await supabase.storage.getBucket('articulos');
+  if (error) throw error;
+  if (data.file_size_limit === MAX_BYTES_FOTO) return;
+
+  const actualizado = await supabase.storage.updateBucket('articulos', {
+    public: data.public,
+    fileSizeLimit: MAX_BYTES_FOTO,
+  });
+  if (actualizado.error) throw actualizado.error;
+  console.log(`🪣 Límite del bucket fijado en ${MAX_BYTES_FOTO / (1024 * 1024)} MB`);
+}
+
+configurarLimiteBucket()
+.catch((error) => console.error('❌ Error configurando el bucket:', error));
+
+// 📍 ENDPOINT: Emitir URLs firmadas de subida. Body: { proposito, cantidad }
+// Sin sesión solo se permite un avatar (registro), limitado por IP
+app.post('/subidas', autenticarUsuarioOpcional, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario?.ID_usuario ?? null;
+  const proposito = req.body.proposito as PropositoSubida;
+  const cantidad = proposito === 'avatar' ? 1 : Number(req.body.cantidad ?? 1);
+
+  if (!PROPOSITOS_SUBIDA.includes(proposito)) {
+    return res.status(400).json({ error: `proposito debe ser uno de: ${PROPOSITOS_SUBIDA.join(', ')}` });
+  }
+  if (!Number.isInteger(cantidad) || cantidad < 1 || cantidad > MAX_FOTOS_PUBLICACION) {
+    return res.status(400).json({ error: `cantidad debe estar entre 1 y ${MAX_FOTOS_PUBLICACION}` });
+  }
+  if (proposito === 'publicacion' && !ID_usuario) {
+    return res.status(401).json({ error: 'Token de acceso requerido' });
+  }
+
+  try {
+    if (!ID_usuario) {
+      const recientes = await pool.query(
+        `SELECT COUNT(*)::int AS total FROM subidas_pendientes
+         WHERE ID_usuario IS NULL AND ip = $1 AND fecha_creacion > now() - interval '1 hour'`,
+        [req.ip]
+      );
+      if (recientes.rows[0].total >= MAX_SUBIDAS_ANONIMAS_HORA) {
+        return res.status(429).json({ error: 'Demasiadas solicitudes, intenta más tarde' });
+      }
+    }
+
+    const subidas = [];
+    for (let i = 0; i < cantidad; i++) {
+      const clave = `${PREFIJO_SUBIDAS}${proposito}/${crypto.randomUUID()}`;
+      const { data, error } = await supabase.storage.from('articulos').createSignedUploadUrl(clave);
+      if (error) throw error;
+
+      await pool.query(
+        'INSERT INTO subidas_pendientes (clave, ID_usuario, proposito, ip) VALUES ($1, $2, $3, $4)',
+        [clave, ID_usuario, proposito, req.ip]
+      );
+      subidas.push({ clave, url: data.signedUrl, token: data.token });
+    }
+
+    res.status(201).json({ subidas, vigencia_minutos: SUBIDA_VIGENCIA_MINUTOS, max_bytes: MAX_BYTES_FOTO });
+  } catch (error) {
+    console.error('❌ Error generando URLs de subida:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// Foto enviada por el cliente: data URL base64 (clientes antiguos) o clave de una subida directa.
+// La clave debe ser vigente, del mismo usuario y del mismo propósito; los bytes se validan igual
+async function obtenerFotoEntrada(entrada: unknown, ID_usuario: number | null, proposito: PropositoSubida) {
+  if (typeof entrada !== 'string') throw new FotoInvalidaError('Formato de imagen inválido');
+  if (!entrada.startsWith(PREFIJO_SUBIDAS)) return { buffer: decodificarFoto(entrada), clave: null };
+
+  const registro = await pool.query(
+    `SELECT 1 FROM subidas_pendientes
+     WHERE clave = $1 AND ID_usuario IS NOT DISTINCT FROM $2 AND proposito = $3
+       AND fecha_creacion > now() - make_interval(mins => $4)`,
+    [entrada, ID_usuario, proposito, SUBIDA_VIGENCIA_MINUTOS]
+  );
+  if (registro.rows.length === 0) throw new FotoInvalidaError('Subida no encontrada o vencida');
+
+  // El tamaño se consulta en los metadatos antes de descargar: un objeto enorme no llega a memoria
+  const info = await supabase.storage.from('articulos').info(entrada);
+  if (info.error || !info.data) throw new FotoInvalidaError('El archivo no se subió');
+  if (typeof info.data.size !== 'number' || info.data.size > MAX_BYTES_FOTO) {
+    throw new FotoInvalidaError(`Cada foto debe pesar máximo ${MAX_BYTES_FOTO / (1024 * 1024)} MB`);
+  }
+
+  const { data, error } = await supabase.storage.from('articulos').download(entrada);
+  if (error || !data) throw new FotoInvalidaError('El archivo no se subió');
+
+  return { buffer: validarFoto(Buffer.from(await data.arrayBuffer())), clave: entrada };
+}
+
+// Tras adjuntar las fotos, borrar los objetos temporales y sus registros.
+// Los registros se borran solo si el bucket respondió bien: si no, la limpieza periódica reintenta
+async function liberarSubidas(claves: (string | null)[]) {
+  const usadas = claves.filter((clave): clave is string => !!clave);
+  if (usadas.length === 0) return;
+
+  const { error } = await supabase.storage.from('articulos').remove(usadas);
+  if (error) throw error;
+  await pool.query('DELETE FROM subidas_pendientes WHERE clave = ANY($1)', [usadas]);
+}
+
+// Borrar subidas que nunca se adjuntaron a una publicación o perfil
+async function limpiarSubidasPendientes() {
+  const vencidas = await pool.query(
+    `SELECT clave FROM subidas_pendientes
+     WHERE fecha_creacion < now() - make_interval(mins => $1)
+     LIMIT 1000`,
+    [SUBIDA_VIGENCIA_MINUTOS]
+  );
+  if (vencidas.rows.length === 0) return;
+
+  await liberarSubidas(vencidas.rows.map((r) => r.clave));
+  console.log(`🧹 ${vencidas.rows.length} subidas sin adjuntar eliminadas`);
+}
+
+setInterval(() => {
+  limpiarSubidasPendientes().catch((error) => console.error('❌ Error limpiando subidas:', error));
+}, 60 * 60 * 1000);
+
+// ==================== FOTO DE PERFIL ====================
+const TAMANO_AVATAR = 512;
+const TAMANO_MINIATURA_AVATAR = 128;
+
+// Recorta al centro en cuadrado y guarda foto + miniatura en avatares/<id>/
+async function subirAvatar(ID_usuario: number, original: Buffer) {
+  const [imagen, miniatura] = await Promise.all([
+    sharp(original, { limitInputPixels: MAX_PIXELES_FOTO }).rotate().resize(TAMANO_AVATAR, TAMANO_AVATAR, { fit: 'cover' }).webp().toBuffer(),
+    sharp(original, { limitInputPixels: MAX_PIXELES_FOTO }).rotate().resize(TAMANO_MINIATURA_AVATAR, TAMANO_MINIATURA_AVATAR, { fit: 'cover' }).webp().toBuffer(),
+  ]);
+
+  // Nombre nuevo en cada cambio para que los clientes no muestren la foto vieja en caché
+  const base = `avatares/${ID_usuario}/${Date.now()}`;
+  const rutas = { foto: `${base}.webp`, foto_miniatura: `${base}_miniatura.webp` };
+
+  for (const [ruta, contenido] of [[rutas.foto, imagen], [rutas.foto_miniatura, miniatura]] as const) {
+    const { error } = await supabase.storage
+      .from('articulos')
+      .upload(ruta, contenido, { contentType: 'image/webp', upsert: true });
+    if (error) throw error;
+  }
+
+  return {
+    foto: supabase.storage.from('articulos').getPublicUrl(rutas.foto).data.publicUrl,
+    foto_miniatura: supabase.storage.from('articulos').getPublicUrl(rutas.foto_miniatura).data.publicUrl,
+  };
+}
+
+// Borra del bucket los objetos de una foto de perfil reemplazada
+async function eliminarObjetosAvatar(...urls: (string | null)[]) {
+  const rutas = urls.map(rutaDesdeUrlPublica).filter((ruta): ruta is string => !!ruta);
+  if (rutas.length === 0) return;
+
+  const { error } = await supabase.storage.from('articulos').remove(rutas);
+  if (error) console.error('⚠️ No se pudo borrar la foto de perfil anterior:', error);
+}
+
+// 📍 ENDPOINT: Subir o reemplazar la foto de perfil. foto: data URL o clave de /subidas
+app.put('/usuario/foto', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  if (!req.body.foto) {
+    return res.status(400).json({ error: 'La foto es obligatoria' });
+  }
+
+  try {
+    const anterior = await pool.query(
+      'SELECT foto, foto_miniatura FROM usuario WHERE ID_usuario = $1',
+      [ID_usuario]
+    );
+    if (anterior.rows.length === 0) {
+      return res.status(404).json({ error: 'Usuario no encontrado' });
+    }
+
+    let avatar;
+    let clave: string | null;
+    try {
+      const entrada = await obtenerFotoEntrada(req.body.foto, ID_usuario, 'avatar');
+      clave = entrada.clave;
+      avatar = await subirAvatar(ID_usuario, entrada.buffer);
+    } catch (error) {
+      console.error('❌ Error procesando foto de perfil:', error);
+      const mensaje = error instanceof FotoInvalidaError ? error.message : 'No se pudo procesar la imagen';
+      return res.status(400).json({ error: mensaje });
+    }
+
+    await pool.query(
+      'UPDATE usuario SET foto = $1, foto_miniatura = $2 WHERE ID_usuario = $3',
+      [avatar.foto, avatar.foto_miniatura, ID_usuario]
+    );
+    await eliminarObjetosAvatar(anterior.rows[0].foto, anterior.rows[0].foto_miniatura);
+    liberarSubidas([clave]).catch((error) => console.error('⚠️ No se pudieron liberar subidas:', error));
+
+    res.json(avatar);
+  } catch (error) {
+    console.error('❌ Error actualizando foto de perfil:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Quitar la foto de perfil
+app.delete('/usuario/foto', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  try {
+    const result = await pool.query(
+      `UPDATE usuario u SET foto = NULL, foto_miniatura = NULL
+       FROM (SELECT foto, foto_miniatura FROM usuario WHERE ID_usuario = $1) anterior
+       WHERE u.ID_usuario = $1
+       RETURNING anterior.foto, anterior.foto_miniatura`,
+      [ID_usuario]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Usuario no encontrado' });
+    }
+
+    await eliminarObjetosAvatar(result.rows[0].foto, result.rows[0].foto_miniatura);
+    res.json({ mensaje: 'Foto de perfil eliminada' });
+  } catch (error) {
+    console.error('❌ Error eliminando foto de perfil:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// Ruta para publicar artículo con fotos en Supabase
+app.post('/publicar_articulo', autenticarUsuario, async (req: Request, res: Response) => {
+  const { nombre_Articulo, descripcion, precio, fotos, borrador } = req.body;
+  const ID_usuario = req.usuario!.ID_usuario;
+  const estado: EstadoPublicacion = borrador === true ? 'borrador' : 'activa';
+
+  if (req.body.ID_usuario && !esPropietario(req, req.body.ID_usuario)) {
+    return res.status(403).json({ error: 'No puedes publicar a nombre de otro usuario' });
+  }
+  if (!fotos || !Array.isArray(fotos) || fotos.length === 0) return res.status(400).json({ error: 'Se requiere al menos una foto' });
+  if (fotos.length > MAX_FOTOS_PUBLICACION) {
+    return res.status(400).json({ error: `Máximo ${MAX_FOTOS_PUBLICACION} fotos por publicación` });
+  }
+
+  let categorias;
+  try {
+    categorias = await validarCategoriasBody(req.body);
+  } catch (error) {
+    console.error('Error al validar categorías:', error);
+    return res.status(500).json({ error: 'Error al publicar el artículo' });
+  }
+  if (categorias.error) return res.status(400).json({ error: categorias.error });
+  const { columnas: valoresCategoria } = categorias;
+
+  // Validar y procesar todas las fotos (data URL o clave de /subidas) antes de tocar la base de datos
+  let procesadas;
+  const claves: (string | null)[] = [];
+  try {
+    procesadas = [];
+    for (const foto of fotos) {
+      const entrada = await obtenerFotoEntrada(foto, ID_usuario, 'publicacion');
+      claves.push(entrada.clave);
+      procesadas.push(await procesarFotoPublicacion(entrada.buffer));
+    }
+  } catch (error) {
+    if (error instanceof FotoInvalidaError) return res.status(400).json({ error: error.message });
+    console.error('Error al procesar fotos:', error);
+    return res.status(500).json({ error: 'Error al publicar el artículo' });
+  }
+
+  const client = await pool.connect();
+  // Rutas escritas en el bucket, para borrarlas si algo falla antes del COMMIT
+  const rutasSubidas: string[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO com_ventas 
+        (nombre_Articulo, descripcion, precio, tipo_bicicleta, tipo_componente, ID_tipo_bicicleta, ID_tipo_componente, ID_usuario, estado) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+       RETURNING ID_publicacion`,
+      [
+        nombre_Articulo, descripcion, precio,
+        valoresCategoria!.tipo_bicicleta ?? null, valoresCategoria!.tipo_componente ?? null,
+        valoresCategoria!.ID_tipo_bicicleta ?? null, valoresCategoria!.ID_tipo_componente ?? null,
+        ID_usuario, estado
+      ]
+    );
+
+    await client.query(
+      `INSERT INTO historial_estados_publicacion (ID_publicacion, estado_anterior, estado_nuevo, actor)
+       VALUES ($1, NULL, $2, $3)`,
+      [result.rows[0].id_publicacion, estado, `usuario:${ID_usuario}`]
+    );
+
+    const idPublicacion = result.rows[0].id_publicacion;
+
+    for (let i = 0; i < procesadas.length; i++) {
+      const nombre = `foto_${i}`;
+      rutasSubidas.push(...VARIANTES_FOTO.map((variante) => rutaFotoPublicacion(idPublicacion, nombre, variante.nombre)));
+      const urls = await subirFotoPublicacion(idPublicacion, procesadas[i], nombre);
+
+      // Guardar URLs en la base de datos
+      await insertarFotoPublicacion(client, idPublicacion, urls, i);
+    }
+
+    await client.query('COMMIT');
+    rutasSubidas.length = 0;
+    liberarSubidas(claves).catch((error) => console.error('⚠️ No se pudieron liberar subidas:', error));
+    if (estado === 'activa') {
+      notificarBusquedasGuardadas(idPublicacion)
+        .catch((error) => console.error('❌ Error notificando búsquedas guardadas:', error));
+    }
+    res.status(201).json({ mensaje: 'Artículo publicado con éxito', ID_publicacion: idPublicacion, estado });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al publicar artículo:', error);
+
+    if (rutasSubidas.length > 0) {
+      const { error: storageError } = await supabase.storage.from('articulos').remove(rutasSubidas);
+      if (storageError) console.error('⚠️ No se pudieron borrar las fotos subidas:', storageError);
+    }
+
+    res.status(500).json({ error: 'Error al publicar el artículo' });
+  } finally {
+    client.release();
+  }
+});
+
+// Estados en los que el vendedor todavía puede editar la publicación
+const ESTADOS_EDITABLES: EstadoPublicacion[] = ['borrador', 'activa', 'reservada', 'archivada'];
+
+// Cargar una publicación y verificar que el usuario autenticado pueda editarla
+async function obtenerPublicacionEditable(req: Request, idPublicacion: number) {
+  const result = await pool.query(
+    `SELECT ID_publicacion AS id_publicacion, ID_usuario AS id_usuario, nombre_articulo, precio, estado
+     FROM com_ventas WHERE ID_publicacion = $1`,
+    [idPublicacion]
+  );
+  const publicacion = result.rows[0];
+
+  if (!publicacion) return { status: 404, error: 'Publicación no encontrada' };
+  if (!esPropietario(req, publicacion.id_usuario)) return { status: 403, error: 'No autorizado' };
+  if (!ESTADOS_EDITABLES.includes(publicacion.estado)) {
+    return { status: 409, error: `No se puede editar una publicación en estado ${publicacion.estado}` };
+  }
+  return { publicacion };
+}
+
+// 📍 ENDPOINT: Editar campos de una publicación (solo los enviados)
+app.patch('/publicaciones/:id', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  const columnas: Record<string, string> = {
+    nombre_Articulo: 'nombre_articulo',
+    descripcion: 'descripcion',
+    precio: 'precio',
+  };
+  const camposCategoria = ['tipo_bicicleta', 'tipo_componente', 'ID_tipo_bicicleta', 'ID_tipo_componente'];
+
+  const cambios = Object.keys(columnas).filter((campo) => req.body[campo] !== undefined);
+  if (cambios.length === 0 && !camposCategoria.some((campo) => req.body[campo] !== undefined)) {
+    return res.status(400).json({ error: 'No hay campos para actualizar' });
+  }
+  // null o "" también cuentan como enviados: Number(null) y Number("") darían 0
+  const { precio, nombre_Articulo } = req.body;
+  if (
+    precio !== undefined &&
+    (precio === null || String(precio).trim() === '' || isNaN(Number(precio)) || Number(precio) < 0)
+  ) {
+    return res.status(400).json({ error: 'Precio inválido' });
+  }
+  if (nombre_Articulo !== undefined && (typeof nombre_Articulo !== 'string' || !nombre_Articulo.trim())) {
+    return res.status(400).json({ error: 'El nombre del artículo no puede estar vacío' });
+  }
+
+  try {
+    const { publicacion, status, error } = await obtenerPublicacionEditable(req, idPublicacion);
+    if (!publicacion) return res.status(status!).json({ error });
+
+    const categorias = await validarCategoriasBody(req.body);
+    if (categorias.error) return res.status(400).json({ error: categorias.error });
+
+    const valores: Record<string, unknown> = { ...categorias.columnas };
+    cambios.forEach((campo) => { valores[columnas[campo]] = req.body[campo]; });
+
+    const asignaciones = Object.keys(valores).map((columna, i) => `${columna} = $${i + 2}`);
+    const result = await pool.query(
+      `UPDATE com_ventas SET ${asignaciones.join(', ')}
+       WHERE ID_publicacion = $1
+       RETURNING ID_publicacion AS id, nombre_articulo, descripcion, precio, tipo_bicicleta, tipo_componente,
+                 ID_tipo_bicicleta AS id_tipo_bicicleta, ID_tipo_componente AS id_tipo_componente, estado`,
+      [idPublicacion, ...Object.values(valores)]
+    );
+    const actualizada = result.rows[0];
+
+    // Avisar a quienes tienen el artículo en el carrito si el precio bajó
+    // (quien además tenía una alerta de precio cumplida recibe solo el aviso de la alerta)
+    let notificados = 0;
+    if (req.body.precio !== undefined && Number(actualizada.precio) < Number(publicacion.precio)) {
+      const alertados = actualizada.estado === 'activa'
+        ? await dispararAlertasPrecio(idPublicacion, actualizada.nombre_articulo, Number(actualizada.precio))
+        : [];
+      const compradores = await pool.query(
+        'SELECT ID_usuario AS id_usuario FROM carrito WHERE ID_publicacion = $1 AND NOT (ID_usuario = ANY($2::int[]))',
+        [idPublicacion, alertados]
+      );
+      notificados += alertados.length;
+      for (const comprador of compradores.rows) {
+        await guardarNotificacionBD(
+          comprador.id_usuario,
+          '¡Bajó de precio! 💸',
+          `"${actualizada.nombre_articulo}" que tienes en tu carrito ahora cuesta $${Number(actualizada.precio).toLocaleString('es-CO')}.`,
+          {
+            tipo: 'baja_precio',
+            ID_publicacion: idPublicacion,
+            nombre_articulo: actualizada.nombre_articulo,
+            precio_anterior: publicacion.precio,
+            precio_nuevo: actualizada.precio,
+            timestamp: new Date().toISOString()
+          }
+        );
+        notificados++;
+      }
+    }
+
+    res.json({ mensaje: 'Publicación actualizada', publicacion: actualizada, compradoresNotificados: notificados });
+  } catch (error) {
+    console.error('❌ Error actualizando publicación:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// Fotos de una publicación en su orden actual
+async function listarFotosPublicacion(idPublicacion: number, db: Pool | PoolClient = pool) {
+  const result = await db.query(
+    `SELECT id_foto, url_foto, url_tarjeta, url_miniatura, orden FROM com_ventas_fotos
+     WHERE ID_publicacion = $1
+     ORDER BY orden NULLS LAST, id_foto`,
+    [idPublicacion]
+  );
+  return result.rows;
+}
+
+// 📍 ENDPOINT: Agregar fotos a una publicación (al final)
+app.post('/publicaciones/:id/fotos', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  const { fotos } = req.body;
+
+  if (!Array.isArray(fotos) || fotos.length === 0) {
+    return res.status(400).json({ error: 'Se requiere al menos una foto' });
+  }
+
+  const procesadas = [];
+  const claves: (string | null)[] = [];
+
+  try {
+    const { publicacion, status, error } = await obtenerPublicacionEditable(req, idPublicacion);
+    if (!publicacion) return res.status(status!).json({ error });
+
+    const actuales = await listarFotosPublicacion(idPublicacion);
+    if (actuales.length + fotos.length > MAX_FOTOS_PUBLICACION) {
+      return res.status(400).json({ error: `Máximo ${MAX_FOTOS_PUBLICACION} fotos por publicación` });
+    }
+
+    for (const foto of fotos) {
+      const entrada = await obtenerFotoEntrada(foto, req.usuario!.ID_usuario, 'publicacion');
+      claves.push(entrada.clave);
+      procesadas.push(await procesarFotoPublicacion(entrada.buffer));
+    }
+  } catch (error: any) {
+    if (error instanceof FotoInvalidaError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('❌ Error agregando fotos:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  }
+
+  const client = await pool.connect();
+  // Rutas escritas en el bucket, para borrarlas si algo falla antes del COMMIT
+  const rutasSubidas: string[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    // Bloquear la publicación y volver a contar: otra subida pudo terminar mientras se procesaba
+    await client.query('SELECT 1 FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE', [idPublicacion]);
+    const conteo = await client.query(
+      'SELECT COUNT(*)::int AS total FROM com_ventas_fotos WHERE ID_publicacion = $1',
+      [idPublicacion]
+    );
+    let siguienteOrden = conteo.rows[0].total;
+    if (siguienteOrden + procesadas.length > MAX_FOTOS_PUBLICACION) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: `Máximo ${MAX_FOTOS_PUBLICACION} fotos por publicación` });
+    }
+
+    for (let i = 0; i < procesadas.length; i++) {
+      const nombre = `foto_${Date.now()}_${i}`;
+      rutasSubidas.push(...VARIANTES_FOTO.map((variante) => rutaFotoPublicacion(idPublicacion, nombre, variante.nombre)));
+      const urls = await subirFotoPublicacion(idPublicacion, procesadas[i], nombre);
+      await insertarFotoPublicacion(client, idPublicacion, urls, siguienteOrden++);
+    }
+
+    await client.query('COMMIT');
+    // Ya confirmadas: no se borran aunque falle lo que sigue
+    rutasSubidas.length = 0;
+    liberarSubidas(claves).catch((error) => console.error('⚠️ No se pudieron liberar subidas:', error));
+
+    res.status(201).json({ mensaje: 'Fotos agregadas', fotos: await listarFotosPublicacion(idPublicacion) });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error agregando fotos:', error);
+
+    if (rutasSubidas.length > 0) {
+      const { error: storageError } = await supabase.storage.from('articulos').remove(rutasSubidas);
+      if (storageError) console.error('⚠️ No se pudieron borrar las fotos subidas:', storageError);
+    }
+
+    res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+});
+
+// 📍 ENDPOINT: Eliminar una foto (y su objeto en el bucket)
+app.delete('/publicaciones/:id/fotos/:idFoto', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  const idFoto = Number(req.params.idFoto);
+
+  let publicacionEditable;
+  try {
+    publicacionEditable = await obtenerPublicacionEditable(req, idPublicacion);
+  } catch (error) {
+    console.error('❌ Error eliminando foto:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  }
+  const { publicacion, status, error } = publicacionEditable;
+  if (!publicacion) return res.status(status!).json({ error });
+
+  let foto;
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Bloquear la publicación: dos borrados simultáneos no deben dejarla sin fotos
+    await client.query('SELECT 1 FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE', [idPublicacion]);
+    const actuales = await listarFotosPublicacion(idPublicacion, client);
+    foto = actuales.find((f) => f.id_foto === idFoto);
+    if (!foto) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Foto no encontrada' });
+    }
+    if (actuales.length === 1) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'La publicación debe conservar al menos una foto' });
+    }
+
+    await client.query('DELETE FROM com_ventas_fotos WHERE id_foto = $1', [idFoto]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error eliminando foto:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+
+  try {
+    const rutas = [foto.url_foto, foto.url_tarjeta, foto.url_miniatura]
+      .map(rutaDesdeUrlPublica)
+      .filter((ruta): ruta is string => !!ruta);
+    if (rutas.length > 0) {
+      const { error: storageError } = await supabase.storage.from('articulos').remove(rutas);
+      if (storageError) console.error('⚠️ No se pudo borrar el objeto del bucket:', storageError);
+    }
+
+    res.json({ mensaje: 'Foto eliminada', fotos: await listarFotosPublicacion(idPublicacion) });
+  } catch (error) {
+    console.error('❌ Error eliminando foto:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Reordenar fotos. Body: { orden: [id_foto, ...] } con todas las fotos actuales
+app.put('/publicaciones/:id/fotos/orden', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  const { orden } = req.body;
+
+  if (!Array.isArray(orden) || orden.length === 0) {
+    return res.status(400).json({ error: 'orden debe ser un arreglo de id_foto' });
+  }
+
+  let publicacionEditable;
+  try {
+    publicacionEditable = await obtenerPublicacionEditable(req, idPublicacion);
+  } catch (error) {
+    console.error('❌ Error reordenando fotos:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  }
+  const { publicacion, status, error } = publicacionEditable;
+  if (!publicacion) return res.status(status!).json({ error });
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Con la publicación bloqueada el conjunto de fotos no cambia mientras se reordena
+    await client.query('SELECT 1 FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE', [idPublicacion]);
+    const actuales = await listarFotosPublicacion(idPublicacion, client);
+    const idsActuales = new Set(actuales.map((f) => f.id_foto));
+    const idsNuevos = orden.map(Number);
+
+    if (idsNuevos.length !== idsActuales.size || new Set(idsNuevos).size !== idsNuevos.length
+        || !idsNuevos.every((id) => idsActuales.has(id))) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'orden debe incluir cada foto de la publicación exactamente una vez' });
+    }
+
+    for (let i = 0; i < idsNuevos.length; i++) {
+      await client.query('UPDATE com_ventas_fotos SET orden = $1 WHERE id_foto = $2', [i, idsNuevos[i]]);
+    }
+    await client.query('COMMIT');
+
+    res.json({ mensaje: 'Fotos reordenadas', fotos: await listarFotosPublicacion(idPublicacion) });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error reordenando fotos:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+});
+
+
+
+// ==================== TIEMPO REAL (SSE) ====================
+// Conexiones abiertas por usuario (un usuario puede tener varios dispositivos).
+// Vive en memoria: con varias instancias del servidor cada una atiende sus propias conexiones.
+const clientesSSE = new Map<number, Set<Response>>();
+const INTERVALO_PING_SSE = 25 * 1000;
+
+// Enviar un evento a todas las conexiones abiertas de un usuario
+function emitirEventoUsuario(ID_usuario: number, evento: string, datos: any) {
+  const conexiones = clientesSSE.get(Number(ID_usuario));
+  if (!conexiones) return;
+
+  const mensaje = `event: ${evento}\ndata: ${JSON.stringify(datos)}\n\n`;
+  for (const conexion of conexiones) {
+    conexion.write(mensaje);
+  }
+}
+
+// EventSource no permite headers en navegador y la URL termina en logs: en vez del
+// access token se usa un ticket de corta duración que solo sirve para abrir /eventos
+const DURACION_TICKET_SSE = '60s';
+const SECRETO_TICKET_SSE = crypto.createHmac('sha256', JWT_SECRET).update('ticket-sse').digest('hex');
+
+// 📍 ENDPOINT: Emitir ticket para abrir el canal de eventos desde el navegador
+app.post('/eventos/ticket', autenticarUsuario, (req: Request, res: Response) => {
+  const { ID_usuario, correo } = req.usuario!;
+  const ticket = jwt.sign({ ID_usuario, correo }, SECRETO_TICKET_SSE, {
+    expiresIn: DURACION_TICKET_SSE,
+    audience: 'sse',
+  });
+  res.json({ ticket });
+});
+
+// Acepta ?ticket= (navegador) o el header Authorization habitual (apps nativas)
+const autenticarEventos = (req: Request, res: Response, next: Function) => {
+  if (typeof req.query.ticket !== 'string') {
+    return autenticarUsuario(req, res, next);
+  }
+
+  try {
+    const payload = jwt.verify(req.query.ticket, SECRETO_TICKET_SSE, { audience: 'sse' }) as UsuarioToken;
+    req.usuario = { ID_usuario: Number(payload.ID_usuario), correo: payload.correo };
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Ticket inválido o expirado' });
+  }
+};
+
+// 📍 ENDPOINT: Canal de eventos en tiempo real (notificaciones y carrito)
+app.get('/eventos', autenticarEventos, (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`event: conectado\ndata: ${JSON.stringify({ ID_usuario })}\n\n`);
+
+  if (!clientesSSE.has(ID_usuario)) clientesSSE.set(ID_usuario, new Set());
+  clientesSSE.get(ID_usuario)!.add(res);
+  console.log(`📡 Conexión SSE abierta para usuario ${ID_usuario}`);
+
+  // Comentario periódico para que proxies y el móvil no cierren la conexión
+  const ping = setInterval(() => res.write(': ping\n\n'), INTERVALO_PING_SSE);
+
+  req.on('close', () => {
+    clearInterval(ping);
+    const conexiones = clientesSSE.get(ID_usuario);
+    conexiones?.delete(res);
+    if (conexiones?.size === 0) clientesSSE.delete(ID_usuario);
+    console.log(`📴 Conexión SSE cerrada para usuario ${ID_usuario}`);
+  });
+});
+
+// ==================== ENDPOINTS DE NOTIFICACIONES ====================
+// Tipos de notificación que se guardan en data.tipo
+const TIPOS_NOTIFICACION = [
+  'interes_carrito', 'articulo_vendido', 'baja_precio', 'mensaje', 'orden', 'resena',
+  'busqueda_guardada', 'alerta_precio', 'test'
+];
+const LIMITE_NOTIFICACIONES_DEFECTO = 20;
+const LIMITE_NOTIFICACIONES_MAXIMO = 100;
+// Respuesta clásica (arreglo plano) para clientes que no paginan
+const LIMITE_NOTIFICACIONES_SIN_PAGINAR = 50;
+
+// Cursores opacos para paginación: base64url de un arreglo JSON con los valores de orden
+const codificarCursor = (valores: unknown[]) =>
+  Buffer.from(JSON.stringify(valores)).toString('base64url');
+
+const decodificarCursor = (cursor: unknown): any[] | null => {
+  if (typeof cursor !== 'string' || cursor === '') return null;
+  try {
+    const valores = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(valores) ? valores : null;
+  } catch {
+    return null;
+  }
+};
+
+// 📍 ENDPOINT: Obtener notificaciones del usuario paginadas por fecha_envio
+// Query: limite, cursor (siguiente_cursor de la página anterior), tipo, no_leidas=true
+// Sin limite ni cursor responde el arreglo plano de siempre con las últimas 50
+app.get('/notificaciones/:id_usuario', autenticarUsuario, async (req, res) => {
+  try {
+    const { id_usuario } = req.params;
+    const { cursor, tipo, no_leidas } = req.query;
+    const paginada = cursor !== undefined || req.query.limite !== undefined;
+
+    if (!esPropietario(req, id_usuario)) {
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+
+    if (tipo !== undefined && !TIPOS_NOTIFICACION.includes(String(tipo))) {
+      return res.status(400).json({ error: `tipo debe ser uno de: ${TIPOS_NOTIFICACION.join(', ')}` });
+    }
+
+    const posicion = decodificarCursor(cursor);
+    if (
+      cursor !== undefined &&
+      (!posicion ||
+        posicion.length !== 2 ||
+        typeof posicion[0] !== 'string' ||
+        Number.isNaN(Date.parse(posicion[0])) ||
+        !Number.isInteger(posicion[1]))
+    ) {
+      return res.status(400).json({ error: 'Cursor inválido' });
+    }
+
+    const limite = paginada
+      ? Math.min(
+          Math.max(Number(req.query.limite) || LIMITE_NOTIFICACIONES_DEFECTO, 1),
+          LIMITE_NOTIFICACIONES_MAXIMO
+        )
+      : LIMITE_NOTIFICACIONES_SIN_PAGINAR;
+
+    console.log(`📋 Solicitando notificaciones para usuario ${id_usuario}`);
+
+    const condiciones = ['ID_usuario = $1'];
+    const valores: any[] = [id_usuario];
+
+    if (tipo !== undefined) {
+      valores.push(tipo);
+      condiciones.push(`data->>'tipo' = $${valores.length}`);
+    }
+    if (no_leidas === 'true') {
+      condiciones.push('leida = false');
+    }
+    if (posicion) {
+      valores.push(posicion[0], posicion[1]);
+      condiciones.push(`(fecha_envio, ID_notificacion) < ($${valores.length - 1}, $${valores.length})`);
+    }
+
+    // Se pide uno extra para saber si hay otra página
+    valores.push(limite + 1);
+
+    const result = await pool.query(
+      `SELECT 
+        ID_notificacion as id_notificacion,  -- ALIAS para que coincida con el frontend
+        titulo,
+        cuerpo,
+        leida,
+        fecha_envio,
+        data,
+        fecha_envio::text AS cursor_fecha
+       FROM notificaciones 
+       WHERE ${condiciones.join(' AND ')}
+       ORDER BY fecha_envio DESC, ID_notificacion DESC
+       LIMIT $${valores.length}`,
+      valores
+    );
+
+    const hayMas = result.rows.length > limite;
+    const filas = result.rows.slice(0, limite);
+    const ultima = filas[filas.length - 1];
+
+    console.log(`✅ ${filas.length} notificaciones encontradas para usuario ${id_usuario}`);
+
+    const notificaciones = filas.map(({ cursor_fecha, ...notificacion }) => notificacion);
+
+    if (!paginada) {
+      return res.json(notificaciones);
+    }
+
+    res.json({
+      notificaciones,
+      siguiente_cursor: hayMas ? codificarCursor([ultima.cursor_fecha, ultima.id_notificacion]) : null
+    });
+
+  } catch (error) {
+    console.error('❌ Error obteniendo notificaciones:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Contador de notificaciones no leídas (badge)
+app.get('/notificaciones/:id_usuario/no-leidas', autenticarUsuario, async (req, res) => {
+  try {
+    const { id_usuario } = req.params;
+
+    if (!esPropietario(req, id_usuario)) {
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+
+    const result = await pool.query(
+      `SELECT data->>'tipo' AS tipo, COUNT(*)::int AS cantidad
+       FROM notificaciones
+       WHERE ID_usuario = $1 AND leida = false
+       GROUP BY data->>'tipo'`,
+      [id_usuario]
+    );
+
+    const porTipo: Record<string, number> = {};
+    let total = 0;
+    for (const fila of result.rows) {
+      total += fila.cantidad;
+      if (fila.tipo) porTipo[fila.tipo] = fila.cantidad;
+    }
+
+    res.json({ total, por_tipo: porTipo });
+
+  } catch (error) {
+    console.error('❌ Error contando notificaciones no leídas:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Marcar todas las notificaciones como leídas (opcionalmente solo un tipo)
+app.put('/notificaciones/:id_usuario/leer-todas', autenticarUsuario, async (req, res) => {
+  try {
+    const { id_usuario } = req.params;
+    const { tipo } = req.body;
+
+    if (!esPropietario(req, id_usuario)) {
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+
+    if (tipo !== undefined && !TIPOS_NOTIFICACION.includes(tipo)) {
+      return res.status(400).json({ error: `tipo debe ser uno de: ${TIPOS_NOTIFICACION.join(', ')}` });
+    }
+
+    const result = await pool.query(
+      `UPDATE notificaciones SET leida = true
+       WHERE ID_usuario = $1 AND leida = false
+         AND ($2::text IS NULL OR data->>'tipo' = $2)`,
+      [id_usuario, tipo ?? null]
+    );
+
+    console.log(`✅ ${result.rowCount} notificaciones marcadas como leídas para usuario ${id_usuario}`);
+    res.json({ mensaje: 'Notificaciones marcadas como leídas', actualizadas: result.rowCount });
+
+  } catch (error) {
+    console.error('❌ Error marcando todas como leídas:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Marcar notificación como leída (CORREGIDO)
+app.put('/notificaciones/:id/leida', autenticarUsuario, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    console.log(`📌 Marcando notificación ${id} como leída`);
+
+    const result = await pool.query(
+      `UPDATE notificaciones SET leida = true 
+       WHERE ID_notificacion = $1 AND ID_usuario = $2
+       RETURNING ID_notificacion as id_notificacion, titulo, cuerpo, leida, fecha_envio, data`,
+      [id, req.usuario!.ID_usuario]
+    );
+
+    if (result.rowCount === 0) {
+      console.log(`❌ Notificación ${id} no encontrada`);
+      return res.status(404).json({ error: 'Notificación no encontrada' });
+    }
+
+    console.log(`✅ Notificación ${id} marcada como leída`);
+    res.json({ 
+      mensaje: 'Notificación marcada como leída', 
+      notificacion: result.rows[0] 
+    });
+
+  } catch (error) {
+    console.error('❌ Error marcando notificación como leída:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Eliminar una notificación
+app.delete('/notificaciones/:id', autenticarUsuario, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      'DELETE FROM notificaciones WHERE ID_notificacion = $1 AND ID_usuario = $2',
+      [id, req.usuario!.ID_usuario]
+    );
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Notificación no encontrada' });
+    }
+
+    res.json({ mensaje: 'Notificación eliminada' });
+
+  } catch (error) {
+    console.error('❌ Error eliminando notificación:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Eliminar varias notificaciones
+// Body: { ids: number[] } o { todas: true, solo_leidas?: boolean }
+app.delete('/notificaciones', autenticarUsuario, async (req, res) => {
+  try {
+    const { ids, todas, solo_leidas } = req.body;
+    const ID_usuario = req.usuario!.ID_usuario;
+
+    let result;
+    if (Array.isArray(ids) && ids.length > 0) {
+      result = await pool.query(
+        'DELETE FROM notificaciones WHERE ID_usuario = $1 AND ID_notificacion = ANY($2::int[])',
+        [ID_usuario, ids]
+      );
+    } else if (todas === true) {
+      result = await pool.query(
+        'DELETE FROM notificaciones WHERE ID_usuario = $1 AND ($2::boolean IS NOT TRUE OR leida = true)',
+        [ID_usuario, solo_leidas === true]
+      );
+    } else {
+      return res.status(400).json({ error: 'Se requiere ids o todas: true' });
+    }
+
+    console.log(`🗑️ ${result.rowCount} notificaciones eliminadas para usuario ${ID_usuario}`);
+    res.json({ mensaje: 'Notificaciones eliminadas', eliminadas: result.rowCount });
+
+  } catch (error) {
+    console.error('❌ Error eliminando notificaciones:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+
+
+
+
+// ==================== NOTIFICACIONES PUSH ====================
+// Códigos de FCM que indican que el token ya no sirve
+const ERRORES_FCM_TOKEN_INVALIDO = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
+// 📍 ENDPOINT: Registrar token push del dispositivo
+app.post('/tokens-push', autenticarUsuario, async (req: Request, res: Response) => {
+  const { token_expo, token_fcm, plataforma } = req.body;
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  if (!token_expo && !token_fcm) {
+    return res.status(400).json({ error: 'Se requiere token_expo o token_fcm' });
+  }
+
+  if (token_expo && !Expo.isExpoPushToken(token_expo)) {
+    return res.status(400).json({ error: 'token_expo no es un token de Expo válido' });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Un dispositivo solo pertenece a un usuario: se reemplaza cualquier registro previo
+    await client.query(
+      'DELETE FROM tokens_push WHERE token_expo = $1 OR token_fcm = $2',
+      [token_expo || null, token_fcm || null]
+    );
+    const result = await client.query(
+      `INSERT INTO tokens_push (ID_usuario, token_expo, token_fcm, plataforma)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ID_token as id_token`,
+      [ID_usuario, token_expo || null, token_fcm || null, plataforma || null]
+    );
+
+    await client.query('COMMIT');
+    console.log(`📲 Token push registrado para usuario ${ID_usuario}`);
+    res.status(201).json({ mensaje: 'Token registrado', id_token: result.rows[0].id_token });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error registrando token push:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+});
+
+// 📍 ENDPOINT: Eliminar token push (cerrar sesión en el dispositivo)
+app.delete('/tokens-push', autenticarUsuario, async (req: Request, res: Response) => {
+  const { token_expo, token_fcm } = req.body;
+
+  if (!token_expo && !token_fcm) {
+    return res.status(400).json({ error: 'Se requiere token_expo o token_fcm' });
+  }
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM tokens_push WHERE ID_usuario = $1 AND (token_expo = $2 OR token_fcm = $3)',
+      [req.usuario!.ID_usuario, token_expo || null, token_fcm || null]
+    );
+
+    res.json({ mensaje: 'Token eliminado', eliminados: result.rowCount });
+  } catch (error) {
+    console.error('❌ Error eliminando token push:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// Enviar por FCM directamente; elimina los tokens que FCM reporta como inválidos
+async function enviarPushFCM(tokens: { id_token: number; token_fcm: string }[], titulo: string, cuerpo: string, data: any) {
+  // FCM solo acepta valores string en data
+  const dataFCM: Record<string, string> = {};
+  for (const [clave, valor] of Object.entries(data || {})) {
+    dataFCM[clave] = typeof valor === 'string' ? valor : JSON.stringify(valor);
+  }
+
+  for (let i = 0; i < tokens.length; i += 500) {
+    const lote = tokens.slice(i, i + 500);
+    const respuesta = await admin.messaging().sendEachForMulticast({
+      tokens: lote.map((t) => t.token_fcm),
+      notification: { title: titulo, body: cuerpo },
+      data: dataFCM,
+    });
+
+    const invalidos = lote
+      .filter((_, idx) => {
+        const codigo = respuesta.responses[idx].error?.code;
+        return codigo !== undefined && ERRORES_FCM_TOKEN_INVALIDO.includes(codigo);
+      })
+      .map((t) => t.id_token);
+
+    if (invalidos.length > 0) {
+      await pool.query('DELETE FROM tokens_push WHERE ID_token = ANY($1)', [invalidos]);
+      console.log(`🧹 ${invalidos.length} tokens FCM inválidos eliminados`);
+    }
+  }
+}
+
+// Enviar push a todos los dispositivos de un usuario: Expo primero y FCM como respaldo
+async function enviarPushUsuario(ID_usuario: number, titulo: string, cuerpo: string, data: any = null) {
+  const tokensRes = await pool.query(
+    'SELECT ID_token as id_token, token_expo, token_fcm FROM tokens_push WHERE ID_usuario = $1',
+    [ID_usuario]
+  );
+  const tokens = tokensRes.rows;
+  if (tokens.length === 0) return;
+
+  const conExpo = tokens.filter((t) => t.token_expo && Expo.isExpoPushToken(t.token_expo));
+  const respaldoFCM = tokens.filter((t) => t.token_fcm && !conExpo.includes(t));
+
+  const mensajes = conExpo.map((t) => ({
+    to: t.token_expo,
+    sound: 'default',
+    title: titulo,
+    body: cuerpo,
+    data: data || {},
+  }));
+
+  let offset = 0;
+  for (const chunk of expo.chunkPushNotifications(mensajes)) {
+    const tokensChunk = conExpo.slice(offset, offset + chunk.length);
+    offset += chunk.length;
+
+    try {
+      const tickets = await expo.sendPushNotificationsAsync(chunk);
+
+      for (let i = 0; i < tickets.length; i++) {
+        const ticket = tickets[i];
+        const token = tokensChunk[i];
+
+        if (ticket.status === 'ok') {
+          await pool.query(
+            'INSERT INTO tickets_push (ticket_id, ID_token) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+            [ticket.id, token.id_token]
+          );
+        } else if (ticket.details?.error === 'DeviceNotRegistered') {
+          await pool.query('DELETE FROM tokens_push WHERE ID_token = $1', [token.id_token]);
+          console.log(`🧹 Token Expo ${token.id_token} eliminado (DeviceNotRegistered)`);
+        } else {
+          console.error('⚠️ Ticket de Expo con error:', ticket.message);
+          if (token.token_fcm) respaldoFCM.push(token);
+        }
+      }
+    } catch (error) {
+      // Si Expo no responde, intentamos por FCM con los dispositivos que lo permitan
+      console.error('❌ Error enviando chunk a Expo:', error);
+      respaldoFCM.push(...tokensChunk.filter((t) => t.token_fcm));
+    }
+  }
+
+  if (respaldoFCM.length > 0) {
+    await enviarPushFCM(respaldoFCM, titulo, cuerpo, data);
+  }
+}
+
+// Revisar recibos de Expo y podar tokens reportados como DeviceNotRegistered
+async function revisarRecibosPush() {
+  // Los recibos están disponibles ~15 minutos después del envío y durante ~24 horas
+  await pool.query("DELETE FROM tickets_push WHERE fecha_envio < now() - interval '1 day'");
+
+  const ticketsRes = await pool.query(
+    `SELECT ticket_id, ID_token as id_token FROM tickets_push
+     WHERE fecha_envio < now() - interval '15 minutes'
+     LIMIT 5000`
+  );
+  if (ticketsRes.rows.length === 0) return;
+
+  const tokenPorTicket = new Map<string, number>(
+    ticketsRes.rows.map((t) => [t.ticket_id, t.id_token])
+  );
+  const tokensInvalidos = new Set<number>();
+
+  for (const chunk of expo.chunkPushNotificationReceiptIds([...tokenPorTicket.keys()])) {
+    const recibos = await expo.getPushNotificationReceiptsAsync(chunk);
+
+    for (const [ticketId, recibo] of Object.entries(recibos)) {
+      if (recibo.status === 'error') {
+        console.error(`⚠️ Recibo de Expo con error (${ticketId}):`, recibo.message);
+        if (recibo.details?.error === 'DeviceNotRegistered') {
+          tokensInvalidos.add(tokenPorTicket.get(ticketId)!);
+        }
+      }
+    }
+  }
+
+  if (tokensInvalidos.size > 0) {
+    await pool.query('DELETE FROM tokens_push WHERE ID_token = ANY($1)', [[...tokensInvalidos]]);
+    console.log(`🧹 ${tokensInvalidos.size} tokens Expo eliminados por recibos`);
+  }
+
+  await pool.query('DELETE FROM tickets_push WHERE ticket_id = ANY($1)', [[...tokenPorTicket.keys()]]);
+}
+
+setInterval(() => {
+  revisarRecibosPush().catch((error) => console.error('❌ Error revisando recibos push:', error));
+}, 15 * 60 * 1000);
+
+// ==================== PREFERENCIAS DE NOTIFICACIÓN ====================
+// app: solo bandeja in-app · push: bandeja + push · email: bandeja + correo (Resend)
+const MODOS_NOTIFICACION = ['app', 'push', 'email'];
+const MODO_NOTIFICACION_DEFECTO = 'push';
+const FORMATO_HORA = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const esZonaHorariaValida = (zona: string) => {
+  try {
+    new Intl.DateTimeFormat('es-CO', { timeZone: zona });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 📍 ENDPOINT: Obtener preferencias de notificación del usuario autenticado
+app.get('/preferencias-notificaciones', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const ID_usuario = req.usuario!.ID_usuario;
+
+    const [prefsRes, configRes] = await Promise.all([
+      pool.query('SELECT tipo, modo FROM preferencias_notificacion WHERE ID_usuario = $1', [ID_usuario]),
+      pool.query(
+        `SELECT to_char(silencio_inicio, 'HH24:MI') AS silencio_inicio,
+                to_char(silencio_fin, 'HH24:MI') AS silencio_fin,
+                zona_horaria, resumen_interes
+         FROM configuracion_notificaciones WHERE ID_usuario = $1`,
+        [ID_usuario]
+      ),
+    ]);
+
+    const preferencias: Record<string, string> = {};
+    for (const tipo of TIPOS_NOTIFICACION) preferencias[tipo] = MODO_NOTIFICACION_DEFECTO;
+    for (const fila of prefsRes.rows) preferencias[fila.tipo] = fila.modo;
+
+    res.json({
+      preferencias,
+      ...(configRes.rows[0] || {
+        silencio_inicio: null,
+        silencio_fin: null,
+        zona_horaria: 'America/Bogota',
+        resumen_interes: false,
+      }),
+    });
+  } catch (error) {
+    console.error('❌ Error obteniendo preferencias:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Actualizar preferencias de notificación
+// Body: { preferencias?: { [tipo]: 'app'|'push'|'email' }, silencio_inicio?: 'HH:MM'|null,
+//         silencio_fin?: 'HH:MM'|null, zona_horaria?: string, resumen_interes?: boolean }
+app.put('/preferencias-notificaciones', autenticarUsuario, async (req: Request, res: Response) => {
+  const { preferencias, silencio_inicio, silencio_fin, zona_horaria, resumen_interes } = req.body;
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  if (preferencias !== undefined) {
+    if (typeof preferencias !== 'object' || preferencias === null) {
+      return res.status(400).json({ error: 'preferencias debe ser un objeto' });
+    }
+    for (const [tipo, modo] of Object.entries(preferencias)) {
+      if (!TIPOS_NOTIFICACION.includes(tipo)) {
+        return res.status(400).json({ error: `Tipo de notificación desconocido: ${tipo}` });
+      }
+      if (!MODOS_NOTIFICACION.includes(modo as string)) {
+        return res.status(400).json({ error: `modo debe ser uno de: ${MODOS_NOTIFICACION.join(', ')}` });
+      }
+    }
+  }
+
+  for (const hora of [silencio_inicio, silencio_fin]) {
+    if (hora !== undefined && hora !== null && !FORMATO_HORA.test(hora)) {
+      return res.status(400).json({ error: 'Las horas de silencio deben tener formato HH:MM' });
+    }
+  }
+
+  if (zona_horaria !== undefined && !esZonaHorariaValida(zona_horaria)) {
+    return res.status(400).json({ error: 'Zona horaria inválida' });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    for (const [tipo, modo] of Object.entries(preferencias || {})) {
+      await client.query(
+        `INSERT INTO preferencias_notificacion (ID_usuario, tipo, modo) VALUES ($1, $2, $3)
+         ON CONFLICT (ID_usuario, tipo) DO UPDATE SET modo = EXCLUDED.modo`,
+        [ID_usuario, tipo, modo]
+      );
+    }
+
+    // Los campos no enviados conservan su valor; null desactiva las horas de silencio
+    await client.query(
+      `INSERT INTO configuracion_notificaciones (ID_usuario, silencio_inicio, silencio_fin, zona_horaria, resumen_interes)
+       VALUES ($1, $2, $3, COALESCE($4, 'America/Bogota'), COALESCE($5, false))
+       ON CONFLICT (ID_usuario) DO UPDATE SET
+         silencio_inicio = CASE WHEN $6 THEN EXCLUDED.silencio_inicio ELSE configuracion_notificaciones.silencio_inicio END,
+         silencio_fin = CASE WHEN $7 THEN EXCLUDED.silencio_fin ELSE configuracion_notificaciones.silencio_fin END,
+         zona_horaria = COALESCE($4, configuracion_notificaciones.zona_horaria),
+         resumen_interes = COALESCE($5, configuracion_notificaciones.resumen_interes)`,
+      [
+        ID_usuario,
+        silencio_inicio ?? null,
+        silencio_fin ?? null,
+        zona_horaria ?? null,
+        resumen_interes ?? null,
+        silencio_inicio !== undefined,
+        silencio_fin !== undefined,
+      ]
+    );
+
+    await client.query('COMMIT');
+    res.json({ mensaje: 'Preferencias actualizadas' });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error actualizando preferencias:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+});
+
+// Modo de entrega, horario de silencio y resumen para un usuario y tipo de notificación
+async function obtenerPreferenciaEntrega(ID_usuario: number, tipo: string | undefined) {
+  const result = await pool.query(
+    `SELECT
+      COALESCE(p.modo, $3) AS modo,
+      COALESCE(c.resumen_interes, false) AS resumen_interes,
+      CASE
+        WHEN c.silencio_inicio IS NULL OR c.silencio_fin IS NULL THEN false
+        WHEN c.silencio_inicio <= c.silencio_fin THEN
+          (now() AT TIME ZONE c.zona_horaria)::time >= c.silencio_inicio
+          AND (now() AT TIME ZONE c.zona_horaria)::time < c.silencio_fin
+        ELSE
+          (now() AT TIME ZONE c.zona_horaria)::time >= c.silencio_inicio
+          OR (now() AT TIME ZONE c.zona_horaria)::time < c.silencio_fin
+      END AS en_silencio,
+      u.correo
+     FROM usuario u
+     LEFT JOIN preferencias_notificacion p ON p.ID_usuario = u.ID_usuario AND p.tipo = $2
+     LEFT JOIN configuracion_notificaciones c ON c.ID_usuario = u.ID_usuario
+     WHERE u.ID_usuario = $1`,
+    [ID_usuario, tipo ?? null, MODO_NOTIFICACION_DEFECTO]
+  );
+
+  return result.rows[0] as
+    | { modo: string; resumen_interes: boolean; en_silencio: boolean; correo: string }
+    | undefined;
+}
+
+// Agrupa un nuevo interes_carrito en la notificación no leída de la misma publicación.
+// Devuelve la fila actualizada, o null si no había nada que agrupar.
+async function agruparInteresCarrito(ID_usuario: number, data: any) {
+  const existente = await pool.query(
+    `SELECT ID_notificacion as id_notificacion, data
+     FROM notificaciones
+     WHERE ID_usuario = $1 AND leida = false
+       AND data->>'tipo' = 'interes_carrito'
+       AND data->>'ID_publicacion' = $2
+     ORDER BY fecha_envio DESC
+     LIMIT 1`,
+    [ID_usuario, String(data.ID_publicacion)]
+  );
+
+  if (existente.rows.length === 0) return null;
+
+  const anterior = existente.rows[0];
+  const cantidad = (Number(anterior.data?.cantidad) || 1) + 1;
+
+  const result = await pool.query(
+    `UPDATE notificaciones
+     SET titulo = $2, cuerpo = $3, data = $4, fecha_envio = now()
+     WHERE ID_notificacion = $1
+     RETURNING ID_notificacion as id_notificacion, titulo, cuerpo, leida, fecha_envio, data`,
+    [
+      anterior.id_notificacion,
+      '¡Tu artículo está generando interés! 🛒',
+      `${cantidad} personas agregaron "${data.nombre_articulo}" al carrito. Revisa tus ventas.`,
+      JSON.stringify({ ...data, cantidad }),
+    ]
+  );
+
+  return result.rows[0];
+}
+
+// Enviar una notificación por correo con Resend
+async function enviarCorreoNotificacion(correo: string, titulo: string, cuerpo: string) {
+  await resend.emails.send({
+    from: "Notificaciones Ruedas <onboarding@resend.dev>",
+    to: correo,
+    subject: titulo,
+    text: cuerpo,
+  });
+}
+
+// Función para guardar notificación en BD (MEJORADA)
+// Respeta las preferencias del usuario: modo de entrega, horas de silencio y resumen de intereses
+async function guardarNotificacionBD(ID_usuario: number, titulo: string, cuerpo: string, data: any = null) {
+  try {
+    console.log(`💾 Guardando notificación para usuario ${ID_usuario}:`, { titulo, cuerpo });
+
+    const preferencia = await obtenerPreferenciaEntrega(ID_usuario, data?.tipo);
+
+    if (preferencia?.resumen_interes && data?.tipo === 'interes_carrito') {
+      const agrupada = await agruparInteresCarrito(ID_usuario, data);
+      if (agrupada) {
+        console.log(`🧺 Interés agrupado en notificación ${agrupada.id_notificacion}`);
+        emitirEventoUsuario(ID_usuario, 'notificacion', agrupada);
+        return agrupada;
+      }
+    }
+    
+    const result = await pool.query(
+      `INSERT INTO notificaciones (ID_usuario, titulo, cuerpo, data) 
+       VALUES ($1, $2, $3, $4) 
+       RETURNING ID_notificacion as id_notificacion, titulo, cuerpo, leida, fecha_envio, data`,
+      [ID_usuario, titulo, cuerpo, data ? JSON.stringify(data) : null]
+    );
+    
+    const idNotificacion = result.rows[0].id_notificacion;
+    console.log(`✅ Notificación guardada en BD con ID: ${idNotificacion}`);
+
+    // Tiempo real: llega a todos los dispositivos conectados, incluso en horas de silencio
+    emitirEventoUsuario(ID_usuario, 'notificacion', result.rows[0]);
+
+    if (!preferencia || preferencia.en_silencio) {
+      console.log(`🔕 Usuario ${ID_usuario} en horas de silencio: solo bandeja`);
+      return result.rows[0];
+    }
+
+    // Entregar sin bloquear la respuesta; un fallo de entrega no invalida la notificación
+    if (preferencia.modo === 'push') {
+      enviarPushUsuario(ID_usuario, titulo, cuerpo, { ...(data || {}), id_notificacion: idNotificacion })
+        .catch((error) => console.error('❌ Error enviando push:', error));
+    } else if (preferencia.modo === 'email') {
+      enviarCorreoNotificacion(preferencia.correo, titulo, cuerpo)
+        .catch((error) => console.error('❌ Error enviando correo de notificación:', error));
+    }
+
+    return result.rows[0];
+    
+  } catch (error) {
+    console.error('❌ Error guardando notificación en BD:', error);
+    
+    // Log detallado del error
+    if (error) { // Foreign key violation
+      console.error('🔍 El usuario no existe en la base de datos');
+    }
+    
+    throw error;
+  }
+}
+
+// 📍 ENDPOINT: Agregar al carrito (CON MÁS LOGS)
+app.post('/agregar-carrito', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const ID_publicacion = idEntero(req.body.ID_publicacion);
+    const ID_usuario = req.usuario!.ID_usuario;
+    console.log('🛒 Agregando al carrito - Usuario:', ID_usuario, 'Publicación:', ID_publicacion);
+
+    if (req.body.ID_usuario && !esPropietario(req, req.body.ID_usuario)) {
+      return res.status(403).json({ error: 'No puedes modificar el carrito de otro usuario' });
+    }
+
+    if (!ID_publicacion) {
+      return res.status(400).json({ error: 'ID de publicación es obligatorio' });
+    }
+
+    // Verificar existencia
+    const verificacion = await pool.query(
+      `SELECT 
+        (SELECT 1 FROM usuario WHERE ID_usuario = $1) AS usuario_existe,
+        (SELECT 1 FROM com_ventas WHERE ID_publicacion = $2 AND estado = 'activa') AS articulo_existe,
+        (SELECT 1 FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2) AS en_carrito`,
+      [ID_usuario, ID_publicacion]
+    );
+
+    const { usuario_existe, articulo_existe, en_carrito } = verificacion.rows[0];
+
+    if (!usuario_existe) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (!articulo_existe) return res.status(404).json({ error: 'Artículo no encontrado o no disponible' });
+    if (en_carrito) return res.status(409).json({ error: 'Artículo ya está en el carrito' });
+
+    // Obtener datos del artículo y vendedor
+    const datosArticulo = await pool.query(
+      `SELECT cv.nombre_articulo, cv.ID_usuario as id_vendedor, u.nombre as nombre_vendedor
+       FROM com_ventas cv
+       JOIN usuario u ON cv.ID_usuario = u.ID_usuario
+       WHERE cv.ID_publicacion = $1`,
+      [ID_publicacion]
+    );
+
+    if (datosArticulo.rows.length === 0) {
+      return res.status(404).json({ error: 'Artículo no encontrado' });
+    }
+
+    const articulo = datosArticulo.rows[0];
+    console.log(`📦 Artículo: ${articulo.nombre_articulo}, Vendedor: ${articulo.id_vendedor}`);
+
+    // Insertar en carrito
+    await pool.query(
+      'INSERT INTO carrito (ID_usuario, ID_publicacion) VALUES ($1, $2)',
+      [ID_usuario, ID_publicacion]
+    );
+
+    console.log('✅ Artículo agregado al carrito');
+    emitirEventoUsuario(ID_usuario, 'carrito', { accion: 'agregado', ID_publicacion });
+
+    // Crear notificación para el VENDEDOR
+    if (articulo.id_vendedor && articulo.id_vendedor !== ID_usuario) {
+      console.log(`👤 Creando notificación para vendedor: ${articulo.id_vendedor}`);
+      
+      await guardarNotificacionBD(
+        articulo.id_vendedor,
+        '¡Nuevo interés en tu artículo! 🛒',
+        `Alguien agregó "${articulo.nombre_articulo}" al carrito. Revisa tus ventas.`,
+        {
+          tipo: 'interes_carrito',
+          ID_publicacion: ID_publicacion,
+          nombre_articulo: articulo.nombre_articulo,
+          timestamp: new Date().toISOString()
+        }
+      );
+      console.log(`✅ Notificación creada para vendedor ${articulo.nombre_vendedor} (ID: ${articulo.id_vendedor})`);
+    } else {
+      console.log('ℹ️ No se crea notificación (mismo usuario o vendedor no encontrado)');
+    }
+
+    res.status(201).json({ 
+      mensaje: 'Artículo agregado al carrito correctamente',
+      notificacion_creada: !!articulo.id_vendedor && articulo.id_vendedor !== ID_usuario
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error al agregar al carrito:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+
+// 📍 ENDPOINT: Probar notificaciones manualmente
+app.post('/probar-notificacion', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const { mensaje } = req.body;
+    const ID_usuario = req.usuario!.ID_usuario;
+
+    console.log(`🧪 Probando notificación para usuario ${ID_usuario}`);
+
+    await guardarNotificacionBD(
+      ID_usuario,
+      'Notificación de prueba ✅',
+      mensaje || '¡Esta es una notificación de prueba!',
+      {
+        tipo: 'test',
+        timestamp: new Date().toISOString()
+      }
+    );
+
+    res.json({ 
+      mensaje: 'Notificación de prueba creada correctamente',
+      ID_usuario: ID_usuario
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error en prueba de notificación:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+// Avisar a quien tenía el artículo en el carrito que ya se vendió
+async function notificarArticuloVendido(ID_usuario: number, idPublicacion: number, nombreArticulo: string) {
+  await guardarNotificacionBD(
+    ID_usuario,
+    'Artículo ya no disponible ❌',
+    `El artículo "${nombreArticulo}" que tenías en tu carrito ya fue vendido.`,
+    {
+      tipo: 'articulo_vendido',
+      ID_publicacion: idPublicacion.toString(),
+      nombre_articulo: nombreArticulo,
+      timestamp: new Date().toISOString()
+    }
+  );
+}
+
+// 📍 ENDPOINT: Marcar como vendido (versión simplificada)
+app.delete('/marcar-vendido/:id', autenticarUsuario, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+  
+  try {
+    console.log(`💰 Marcando como vendido publicación ${idPublicacion}`);
+
+    // Obtener datos de la publicación
+    const pubRes = await pool.query(
+      'SELECT nombre_articulo, ID_usuario, estado FROM com_ventas WHERE ID_publicacion = $1', 
+      [idPublicacion]
+    );
+    
+    if (pubRes.rowCount === 0) return res.status(404).json({ error: 'Publicación no encontrada' });
+    
+    const publicacion = pubRes.rows[0];
     const nombreArticulo = publicacion.nombre_articulo || 'Artículo';
 
-    // Obtener compradores que tenían este artículo en carrito
-    const compradoresRes = await pool.query(
-      `SELECT c.ID_usuario, u.nombre
-       FROM carrito c
-       JOIN usuario u ON c.ID_usuario = u.ID_usuario
-       WHERE c.ID_publicacion = $1`,
-      [idPublicacion]
+    if (!esPropietario(req, publicacion.id_usuario)) {
+      return res.status(403).json({ error: 'Solo el vendedor puede marcar la publicación como vendida' });
+    }
+
+    if (!TRANSICIONES_PUBLICACION[publicacion.estado as EstadoPublicacion].includes('vendida')) {
+      return res.status(409).json({ error: `No se puede vender una publicación en estado ${publicacion.estado}` });
+    }
+
+    // Las ventas con orden se cierran desde la orden, que registra al comprador
+    if (await tieneOrdenEnCurso(pool, idPublicacion)) {
+      return res.status(409).json({ error: 'La publicación tiene una orden en curso' });
+    }
+
+    // Obtener compradores que tenían este artículo en carrito
+    const compradoresRes = await pool.query(
+      `SELECT c.ID_usuario, u.nombre
+       FROM carrito c
+       JOIN usuario u ON c.ID_usuario = u.ID_usuario
+       WHERE c.ID_publicacion = $1`,
+      [idPublicacion]
+    );
+
+    console.log(`👥 ${compradoresRes.rows.length} compradores encontrados`);
+
+    const compradores = compradoresRes.rows;
+
+    // Transacción: marcar como vendida (se conserva el historial) y vaciar de los carritos
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      
+      await cambiarEstadoPublicacion(client, idPublicacion, publicacion.estado, 'vendida', `usuario:${publicacion.id_usuario}`);
+      await client.query('DELETE FROM carrito WHERE ID_publicacion = $1', [idPublicacion]);
+      
+      await client.query('COMMIT');
+      console.log('💰 Publicación marcada como vendida y retirada de los carritos');
+
+      // Quitar el artículo de los carritos abiertos en tiempo real
+      for (const comprador of compradores) {
+        emitirEventoUsuario(comprador.id_usuario, 'carrito', {
+          accion: 'vendido',
+          ID_publicacion: idPublicacion
+        });
+      }
+      
+    } catch (txErr: any) {
+      await client.query('ROLLBACK');
+      console.error('❌ Error en transacción:', txErr);
+      return res.status(500).json({ error: 'Error en transacción al marcar publicación como vendida' });
+    } finally {
+      client.release();
+    }
+
+    // Crear notificaciones para los compradores
+    let notificacionesCreadas = 0;
+    for (const comprador of compradores) {
+      if (comprador.id_usuario !== publicacion.id_usuario) { // No notificar al vendedor
+        await notificarArticuloVendido(comprador.id_usuario, idPublicacion, nombreArticulo);
+        notificacionesCreadas++;
+      }
+    }
+
+    console.log(`✅ ${notificacionesCreadas} notificaciones creadas para compradores`);
+
+    res.json({ 
+      message: 'Publicación marcada como vendida y compradores notificados',
+      notificacionesCreadas: notificacionesCreadas,
+      totalCompradores: compradores.length
+    });
+    
+  } catch (err: any) {
+    console.error('❌ Error en marcar-vendido:', err);
+    res.status(500).json({ 
+      error: 'Error en el servidor',
+      details: err.message 
+    });
+  }
+});
+
+
+
+
+
+// Endpoint para obtener los artículos del carrito de un usuario
+app.get('/carrito/:id_usuario', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const { id_usuario } = req.params;
+    if (!id_usuario || isNaN(Number(id_usuario))) {
+      return res.status(400).json({ error: 'ID de usuario inválido' });
+    }
+
+    if (!esPropietario(req, id_usuario)) {
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+
+    const result = await pool.query(
+      `SELECT 
+        cv.ID_publicacion as id,
+        cv.nombre_Articulo,
+        cv.descripcion,
+        cv.precio,
+        cv.tipo_bicicleta,
+        cv.estado,
+        u.nombre as nombre_vendedor,
+        CASE WHEN u.ocultar_telefono THEN NULL ELSE u.telefono END AS telefono,
+        u.ocultar_telefono AS solo_chat,
+        u.foto,
+        cv.ID_usuario as id_vendedor,
+        COALESCE(json_agg(${fotoVariantesSQL('f')} ORDER BY f.orden NULLS LAST, f.id_foto) FILTER (WHERE f.url_foto IS NOT NULL), '[]') as fotos
+      FROM carrito c
+      JOIN com_ventas cv ON c.ID_publicacion = cv.ID_publicacion 
+      JOIN usuario u ON cv.ID_usuario = u.ID_usuario
+      LEFT JOIN com_ventas_fotos f ON cv.ID_publicacion = f.ID_publicacion
+      WHERE c.ID_usuario = $1
+      GROUP BY cv.ID_publicacion, u.nombre, u.telefono, u.ocultar_telefono, u.foto, cv.ID_usuario`,
+      [id_usuario]
+    );
+
+    res.status(200).json(result.rows);
+  } catch (error) {
+    console.error('Error al obtener carrito:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// Endpoint para eliminar un artículo del carrito
+app.delete('/eliminar-carrito', autenticarUsuario, async (req: Request, res: Response) => {
+  console.log('🗑️ Solicitud DELETE recibida en /eliminar-carrito');
+  console.log('Body recibido:', req.body);
+  
+  try {
+    const ID_publicacion = idEntero(req.body.ID_publicacion);
+    const ID_usuario = req.usuario!.ID_usuario;
+
+    if (req.body.ID_usuario && !esPropietario(req, req.body.ID_usuario)) {
+      return res.status(403).json({ error: 'No puedes modificar el carrito de otro usuario' });
+    }
+    
+    // Validación de campos
+    if (!ID_publicacion) {
+      console.error('❌ Faltan campos requeridos');
+      return res.status(400).json({ 
+        error: 'IDs de usuario y publicación son obligatorios',
+        received: req.body
+      });
+    }
+    
+    // Verificar existencia antes de eliminar
+    const existe = await pool.query(
+      'SELECT 1 FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2',
+      [ID_usuario, ID_publicacion]
+    );
+    
+    if (existe.rows.length === 0) {
+      console.error('❌ Artículo no encontrado en carrito');
+      return res.status(404).json({ 
+        error: 'Artículo no encontrado en el carrito',
+        details: `Usuario: ${ID_usuario}, Artículo: ${ID_publicacion}`
+      });
+    }
+    
+    // Eliminar el artículo
+    const result = await pool.query(
+      'DELETE FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2 RETURNING *',
+      [ID_usuario, ID_publicacion]
+    );
+    
+    console.log(`✅ Artículo eliminado:`, result.rows[0]);
+    emitirEventoUsuario(ID_usuario, 'carrito', { accion: 'eliminado', ID_publicacion });
+    
+    res.status(200).json({ 
+      success: true,
+      mensaje: 'Artículo eliminado del carrito',
+      data: result.rows[0]
+    });
+    
+  } catch (error) {
+    console.error('❌ Error en DELETE /eliminar-carrito:', error);
+    res.status(500).json({ 
+      error: 'Error al eliminar del carrito',
+      
+    });
+  }
+});
+
+// ==================== FAVORITOS ====================
+// A diferencia del carrito, guardar un favorito no notifica al vendedor
+
+// 📍 ENDPOINT: Agregar a favoritos. Body: { ID_publicacion }
+app.post('/favoritos', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const ID_publicacion = idEntero(req.body.ID_publicacion);
+
+  if (!ID_publicacion) {
+    return res.status(400).json({ error: 'ID_publicacion es obligatorio' });
+  }
+
+  try {
+    const pubRes = await pool.query(
+      "SELECT ID_usuario AS id_usuario FROM com_ventas WHERE ID_publicacion = $1 AND estado = 'activa'",
+      [ID_publicacion]
+    );
+    if (pubRes.rows.length === 0) {
+      return res.status(404).json({ error: 'Publicación no encontrada' });
+    }
+    if (pubRes.rows[0].id_usuario === ID_usuario) {
+      return res.status(400).json({ error: 'No puedes guardar tus propias publicaciones' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO favoritos (ID_usuario, ID_publicacion) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [ID_usuario, ID_publicacion]
+    );
+    res.status(result.rowCount ? 201 : 200).json({ mensaje: 'Guardado en favoritos', ID_publicacion });
+  } catch (error) {
+    console.error('❌ Error agregando favorito:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Quitar de favoritos
+app.delete('/favoritos/:ID_publicacion', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_publicacion = Number(req.params.ID_publicacion);
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM favoritos WHERE ID_usuario = $1 AND ID_publicacion = $2',
+      [req.usuario!.ID_usuario, ID_publicacion]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'La publicación no está en favoritos' });
+    }
+    res.json({ mensaje: 'Eliminado de favoritos' });
+  } catch (error) {
+    console.error('❌ Error eliminando favorito:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Favoritos del usuario (incluye los ya vendidos o retirados, con su estado)
+app.get('/favoritos', autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT
+        cv.ID_publicacion AS id,
+        cv.nombre_Articulo,
+        cv.descripcion,
+        cv.precio,
+        cv.tipo_bicicleta,
+        cv.tipo_componente,
+        cv.estado,
+        u.nombre AS nombre_vendedor,
+        u.foto,
+        cv.ID_usuario AS id_vendedor,
+        fav.fecha AS fecha_favorito,
+        COALESCE(json_agg(${fotoVariantesSQL('f')} ORDER BY f.orden NULLS LAST, f.id_foto) FILTER (WHERE f.url_foto IS NOT NULL), '[]') AS fotos
+      FROM favoritos fav
+      JOIN com_ventas cv ON cv.ID_publicacion = fav.ID_publicacion
+      JOIN usuario u ON u.ID_usuario = cv.ID_usuario
+      LEFT JOIN com_ventas_fotos f ON f.ID_publicacion = cv.ID_publicacion
+      WHERE fav.ID_usuario = $1
+      GROUP BY cv.ID_publicacion, u.nombre, u.foto, fav.fecha
+      ORDER BY fav.fecha DESC`,
+      [req.usuario!.ID_usuario]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error obteniendo favoritos:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Cuántas personas guardaron una publicación (y si el usuario autenticado es una de ellas)
+app.get('/publicaciones/:id/favoritos', autenticarUsuarioOpcional, async (req: Request, res: Response) => {
+  const idPublicacion = Number(req.params.id);
+
+  try {
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS total, COALESCE(bool_or(ID_usuario = $2), false) AS guardado
+       FROM favoritos WHERE ID_publicacion = $1`,
+      [idPublicacion, req.usuario?.ID_usuario ?? null]
+    );
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error contando favoritos:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// ==================== MENSAJERÍA COMPRADOR–VENDEDOR ====================
+const LONGITUD_MAXIMA_MENSAJE = 2000;
+const LIMITE_MENSAJES_DEFECTO = 30;
+const LIMITE_MENSAJES_MAXIMO = 100;
+
+// Conversación en la que participa el usuario, o undefined si no existe o es ajena
+async function obtenerConversacionParticipante(idConversacion: unknown, ID_usuario: number) {
+  const result = await pool.query(
+    `SELECT ID_conversacion as id_conversacion, ID_publicacion as id_publicacion, nombre_articulo,
+            ID_comprador as id_comprador, ID_vendedor as id_vendedor
+     FROM conversaciones
+     WHERE ID_conversacion = $1 AND (ID_comprador = $2 OR ID_vendedor = $2)`,
+    [idConversacion, ID_usuario]
+  );
+  return result.rows[0];
+}
+
+// 📍 ENDPOINT: Configurar si el teléfono se muestra en las publicaciones
+app.put('/configuracion-contacto', autenticarUsuario, async (req: Request, res: Response) => {
+  const { ocultar_telefono } = req.body;
+
+  if (typeof ocultar_telefono !== 'boolean') {
+    return res.status(400).json({ error: 'ocultar_telefono debe ser booleano' });
+  }
+
+  try {
+    await pool.query('UPDATE usuario SET ocultar_telefono = $1 WHERE ID_usuario = $2', [
+      ocultar_telefono,
+      req.usuario!.ID_usuario,
+    ]);
+    res.json({ mensaje: 'Configuración de contacto actualizada', ocultar_telefono });
+  } catch (error) {
+    console.error('❌ Error actualizando configuración de contacto:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Abrir (o recuperar) la conversación con el vendedor de una publicación
+app.post('/conversaciones', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_publicacion = idEntero(req.body.ID_publicacion);
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  if (!ID_publicacion) {
+    return res.status(400).json({ error: 'ID_publicacion es obligatorio' });
+  }
+
+  try {
+    const pubRes = await pool.query(
+      'SELECT nombre_articulo, ID_usuario as id_vendedor FROM com_ventas WHERE ID_publicacion = $1',
+      [ID_publicacion]
+    );
+    if (pubRes.rows.length === 0) {
+      return res.status(404).json({ error: 'Publicación no encontrada' });
+    }
+
+    const { nombre_articulo, id_vendedor } = pubRes.rows[0];
+    if (id_vendedor === ID_usuario) {
+      return res.status(400).json({ error: 'No puedes abrir una conversación sobre tu propia publicación' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO conversaciones (ID_publicacion, nombre_articulo, ID_comprador, ID_vendedor)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (ID_publicacion, ID_comprador) DO UPDATE SET nombre_articulo = EXCLUDED.nombre_articulo
+       RETURNING ID_conversacion as id_conversacion, (xmax = 0) AS nueva`,
+      [ID_publicacion, nombre_articulo, ID_usuario, id_vendedor]
+    );
+
+    const { id_conversacion, nueva } = result.rows[0];
+    res.status(nueva ? 201 : 200).json({ id_conversacion, nueva });
+
+  } catch (error) {
+    console.error('❌ Error abriendo conversación:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Bandeja de conversaciones del usuario autenticado
+app.get('/conversaciones', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  try {
+    const result = await pool.query(
+      `SELECT 
+        c.ID_conversacion AS id_conversacion,
+        c.ID_publicacion AS id_publicacion,
+        c.nombre_articulo,
+        CASE WHEN c.ID_comprador = $1 THEN 'comprador' ELSE 'vendedor' END AS rol,
+        otro.ID_usuario AS id_contacto,
+        otro.nombre AS nombre_contacto,
+        otro.foto AS foto_contacto,
+        ultimo.contenido AS ultimo_mensaje,
+        ultimo.ID_remitente AS id_remitente_ultimo,
+        c.fecha_ultimo_mensaje,
+        (SELECT COUNT(*)::int FROM mensajes m
+          WHERE m.ID_conversacion = c.ID_conversacion
+            AND m.ID_remitente <> $1 AND m.fecha_lectura IS NULL) AS no_leidos
+      FROM conversaciones c
+      JOIN usuario otro
+        ON otro.ID_usuario = CASE WHEN c.ID_comprador = $1 THEN c.ID_vendedor ELSE c.ID_comprador END
+      LEFT JOIN LATERAL (
+        SELECT contenido, ID_remitente FROM mensajes
+        WHERE ID_conversacion = c.ID_conversacion
+        ORDER BY ID_mensaje DESC LIMIT 1
+      ) ultimo ON true
+      WHERE c.ID_comprador = $1 OR c.ID_vendedor = $1
+      ORDER BY c.fecha_ultimo_mensaje DESC`,
+      [ID_usuario]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error obteniendo conversaciones:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Mensajes de una conversación (más recientes primero)
+// Query: limite, antes_de (ID_mensaje para cargar mensajes anteriores)
+app.get('/conversaciones/:id/mensajes', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const limite = Math.min(
+    Math.max(Number(req.query.limite) || LIMITE_MENSAJES_DEFECTO, 1),
+    LIMITE_MENSAJES_MAXIMO
+  );
+  const antesDe = req.query.antes_de ? Number(req.query.antes_de) : null;
+
+  if (antesDe !== null && isNaN(antesDe)) {
+    return res.status(400).json({ error: 'antes_de inválido' });
+  }
+
+  try {
+    const conversacion = await obtenerConversacionParticipante(req.params.id, ID_usuario);
+    if (!conversacion) {
+      return res.status(404).json({ error: 'Conversación no encontrada' });
+    }
+
+    const result = await pool.query(
+      `SELECT ID_mensaje AS id_mensaje, ID_remitente AS id_remitente, contenido, fecha_envio, fecha_lectura
+       FROM mensajes
+       WHERE ID_conversacion = $1 AND ($2::int IS NULL OR ID_mensaje < $2)
+       ORDER BY ID_mensaje DESC
+       LIMIT $3`,
+      [conversacion.id_conversacion, antesDe, limite]
+    );
+
+    res.json({ conversacion, mensajes: result.rows });
+  } catch (error) {
+    console.error('❌ Error obteniendo mensajes:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Enviar mensaje en una conversación
+app.post('/conversaciones/:id/mensajes', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const contenido = typeof req.body.contenido === 'string' ? req.body.contenido.trim() : '';
+
+  if (!contenido) {
+    return res.status(400).json({ error: 'El mensaje no puede estar vacío' });
+  }
+  if (contenido.length > LONGITUD_MAXIMA_MENSAJE) {
+    return res.status(400).json({ error: `El mensaje supera ${LONGITUD_MAXIMA_MENSAJE} caracteres` });
+  }
+
+  try {
+    const conversacion = await obtenerConversacionParticipante(req.params.id, ID_usuario);
+    if (!conversacion) {
+      return res.status(404).json({ error: 'Conversación no encontrada' });
+    }
+
+    const result = await pool.query(
+      `WITH nuevo AS (
+         INSERT INTO mensajes (ID_conversacion, ID_remitente, contenido)
+         VALUES ($1, $2, $3)
+         RETURNING ID_mensaje AS id_mensaje, ID_conversacion AS id_conversacion,
+                   ID_remitente AS id_remitente, contenido, fecha_envio, fecha_lectura
+       ), actualizada AS (
+         UPDATE conversaciones SET fecha_ultimo_mensaje = now() WHERE ID_conversacion = $1
+       )
+       SELECT * FROM nuevo`,
+      [conversacion.id_conversacion, ID_usuario, contenido]
+    );
+    const mensaje = result.rows[0];
+
+    const destinatario = conversacion.id_comprador === ID_usuario
+      ? conversacion.id_vendedor
+      : conversacion.id_comprador;
+
+    // Los dispositivos del remitente también reciben el mensaje para mantenerse sincronizados
+    emitirEventoUsuario(ID_usuario, 'mensaje', mensaje);
+    emitirEventoUsuario(destinatario, 'mensaje', mensaje);
+
+    await guardarNotificacionBD(
+      destinatario,
+      `Nuevo mensaje sobre "${conversacion.nombre_articulo || 'una publicación'}" 💬`,
+      contenido.length > 100 ? `${contenido.slice(0, 97)}...` : contenido,
+      {
+        tipo: 'mensaje',
+        ID_conversacion: conversacion.id_conversacion,
+        ID_publicacion: conversacion.id_publicacion,
+        timestamp: new Date().toISOString()
+      }
+    );
+
+    res.status(201).json(mensaje);
+  } catch (error) {
+    console.error('❌ Error enviando mensaje:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Marcar como leídos los mensajes recibidos en una conversación
+app.put('/conversaciones/:id/leida', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  try {
+    const conversacion = await obtenerConversacionParticipante(req.params.id, ID_usuario);
+    if (!conversacion) {
+      return res.status(404).json({ error: 'Conversación no encontrada' });
+    }
+
+    const result = await pool.query(
+      `UPDATE mensajes SET fecha_lectura = now()
+       WHERE ID_conversacion = $1 AND ID_remitente <> $2 AND fecha_lectura IS NULL
+       RETURNING ID_mensaje AS id_mensaje, fecha_lectura`,
+      [conversacion.id_conversacion, ID_usuario]
+    );
+
+    // Confirmación de lectura para el otro participante
+    if (result.rows.length > 0) {
+      const otro = conversacion.id_comprador === ID_usuario
+        ? conversacion.id_vendedor
+        : conversacion.id_comprador;
+      emitirEventoUsuario(otro, 'mensajes_leidos', {
+        id_conversacion: conversacion.id_conversacion,
+        mensajes: result.rows
+      });
+    }
+
+    res.json({ mensaje: 'Mensajes marcados como leídos', actualizados: result.rowCount });
+  } catch (error) {
+    console.error('❌ Error marcando mensajes como leídos:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// ==================== ÓRDENES DE COMPRA ====================
+type EstadoOrden = 'pendiente' | 'aceptada' | 'rechazada' | 'pagada' | 'entregada' | 'cancelada';
+type RolOrden = 'comprador' | 'vendedor';
+
+const ESTADOS_ORDEN_EN_CURSO: EstadoOrden[] = ['pendiente', 'aceptada', 'pagada'];
+
+// Transiciones permitidas y quién puede hacerlas; 'pagada' solo la aplica conciliarPago.
+// La entrega la confirma el comprador al recibir: cierra la orden y habilita la reseña
+const TRANSICIONES_ORDEN: Record<EstadoOrden, Partial<Record<EstadoOrden, RolOrden[]>>> = {
+  pendiente: { aceptada: ['vendedor'], rechazada: ['vendedor'], cancelada: ['comprador', 'vendedor'] },
+  aceptada: { cancelada: ['comprador', 'vendedor'] },
+  pagada: { entregada: ['comprador'] },
+  rechazada: {},
+  entregada: {},
+  cancelada: {},
+};
+
+const esEstadoOrden = (estado: unknown): estado is EstadoOrden =>
+  typeof estado === 'string' && Object.prototype.hasOwnProperty.call(TRANSICIONES_ORDEN, estado);
+
+// Mensajes para la otra parte en cada transición
+const MENSAJES_ORDEN: Record<EstadoOrden, (articulo: string) => { titulo: string; cuerpo: string }> = {
+  pendiente: (a) => ({ titulo: '¡Nueva solicitud de compra! 🧾', cuerpo: `Quieren comprar "${a}". Acéptala o recházala.` }),
+  aceptada: (a) => ({ titulo: 'Solicitud aceptada ✅', cuerpo: `El vendedor aceptó tu solicitud de compra de "${a}".` }),
+  rechazada: (a) => ({ titulo: 'Solicitud rechazada ❌', cuerpo: `El vendedor rechazó tu solicitud de compra de "${a}".` }),
+  pagada: (a) => ({ titulo: 'Pago confirmado 💳', cuerpo: `Se confirmó el pago de "${a}".` }),
+  entregada: (a) => ({ titulo: 'Entrega confirmada 📦', cuerpo: `El comprador confirmó que recibió "${a}".` }),
+  cancelada: (a) => ({ titulo: 'Orden cancelada 🚫', cuerpo: `La orden de "${a}" fue cancelada.` }),
+};
+
+const SELECT_ORDEN = `
+  SELECT o.ID_orden AS id_orden, o.ID_publicacion AS id_publicacion,
+         COALESCE(cv.nombre_articulo, o.nombre_articulo) AS nombre_articulo,
+         o.ID_comprador AS id_comprador, comprador.nombre AS nombre_comprador,
+         o.ID_vendedor AS id_vendedor, vendedor.nombre AS nombre_vendedor,
+         o.precio, o.estado, o.fecha_creacion, o.fecha_estado
+  FROM ordenes o
+  LEFT JOIN com_ventas cv ON cv.ID_publicacion = o.ID_publicacion
+  LEFT JOIN usuario comprador ON comprador.ID_usuario = o.ID_comprador
+  LEFT JOIN usuario vendedor ON vendedor.ID_usuario = o.ID_vendedor`;
+
+// ¿La publicación tiene una orden pendiente, aceptada o pagada?
+async function tieneOrdenEnCurso(db: Pool | PoolClient, idPublicacion: number) {
+  const result = await db.query(
+    'SELECT 1 FROM ordenes WHERE ID_publicacion = $1 AND estado = ANY($2)',
+    [idPublicacion, ESTADOS_ORDEN_EN_CURSO]
+  );
+  return result.rows.length > 0;
+}
+
+// Avisar a la otra parte de la orden (bandeja, push/correo y tiempo real)
+async function notificarOrden(orden: any, estado: EstadoOrden, destinatario: number) {
+  const { titulo, cuerpo } = MENSAJES_ORDEN[estado](orden.nombre_articulo || 'Artículo');
+  emitirEventoUsuario(orden.id_comprador, 'orden', { ...orden, estado });
+  emitirEventoUsuario(orden.id_vendedor, 'orden', { ...orden, estado });
+  await guardarNotificacionBD(destinatario, titulo, cuerpo, {
+    tipo: 'orden',
+    ID_orden: orden.id_orden,
+    ID_publicacion: orden.id_publicacion,
+    estado,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Aplicar una transición de orden dentro de una transacción, con sus efectos sobre la publicación.
+// Devuelve los usuarios a los que se les retiró el artículo del carrito por la venta.
+async function aplicarTransicionOrden(
+  client: PoolClient,
+  orden: any,
+  estadoNuevo: EstadoOrden,
+  ID_usuario: number | null,
+  motivo: string | null = null
+) {
+  await client.query(
+    'UPDATE ordenes SET estado = $2, fecha_estado = now() WHERE ID_orden = $1',
+    [orden.id_orden, estadoNuevo]
+  );
+  await client.query(
+    `INSERT INTO historial_estados_orden (ID_orden, estado_anterior, estado_nuevo, ID_usuario, motivo)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [orden.id_orden, orden.estado, estadoNuevo, ID_usuario, motivo]
+  );
+
+  // La publicación pudo borrarse definitivamente (ID_publicacion queda NULL): no hay efectos que aplicar
+  const pubRes = await client.query(
+    'SELECT estado FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE',
+    [orden.id_publicacion]
+  );
+  if (pubRes.rows.length === 0) return [];
+  const estadoPublicacion = pubRes.rows[0].estado as EstadoPublicacion;
+  const actor = ID_usuario ? `usuario:${ID_usuario}` : 'sistema';
+  let desplazados: number[] = [];
+
+  if ((estadoNuevo === 'rechazada' || estadoNuevo === 'cancelada') && estadoPublicacion === 'reservada') {
+    // La publicación vuelve a estar disponible
+    await cambiarEstadoPublicacion(client, orden.id_publicacion, estadoPublicacion, 'activa', actor);
+  } else if (estadoNuevo === 'entregada' && estadoPublicacion !== 'vendida') {
+    // Venta completada: queda registrado quién compró
+    await cambiarEstadoPublicacion(client, orden.id_publicacion, estadoPublicacion, 'vendida', actor);
+    await client.query(
+      'UPDATE com_ventas SET ID_comprador = $2 WHERE ID_publicacion = $1',
+      [orden.id_publicacion, orden.id_comprador]
+    );
+    const carritoRes = await client.query(
+      'DELETE FROM carrito WHERE ID_publicacion = $1 RETURNING ID_usuario AS id_usuario',
+      [orden.id_publicacion]
+    );
+    desplazados = carritoRes.rows.map((fila) => fila.id_usuario);
+  }
+
+  return desplazados;
+}
+
+// Efectos posteriores al COMMIT de una transición: avisos a la otra parte y a los carritos afectados
+async function notificarTransicionOrden(orden: any, estado: EstadoOrden, destinatario: number, desplazados: number[]) {
+  await notificarOrden(orden, estado, destinatario);
+  for (const idUsuario of desplazados) {
+    emitirEventoUsuario(idUsuario, 'carrito', { accion: 'vendido', ID_publicacion: orden.id_publicacion });
+    await notificarArticuloVendido(idUsuario, orden.id_publicacion, orden.nombre_articulo || 'Artículo');
+  }
+}
+
+// 📍 ENDPOINT: Crear solicitudes de compra desde artículos del carrito (una orden por publicación)
+// Body: { ID_publicaciones: number[] }
+app.post('/ordenes', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const recibidos = Array.isArray(req.body.ID_publicaciones) ? (req.body.ID_publicaciones as unknown[]).map(idEntero) : [];
+
+  if (recibidos.length === 0 || recibidos.includes(null)) {
+    return res.status(400).json({ error: 'ID_publicaciones debe ser un arreglo de IDs' });
+  }
+  const ids = [...new Set(recibidos as number[])];
+
+  const client = await pool.connect();
+  const creadas: any[] = [];
+
+  try {
+    await client.query('BEGIN');
+
+    for (const idPublicacion of ids) {
+      const pubRes = await client.query(
+        `SELECT cv.ID_usuario AS id_vendedor, cv.precio, cv.estado, cv.nombre_articulo,
+                EXISTS (SELECT 1 FROM carrito c WHERE c.ID_usuario = $2 AND c.ID_publicacion = cv.ID_publicacion) AS en_carrito
+         FROM com_ventas cv WHERE cv.ID_publicacion = $1 FOR UPDATE`,
+        [idPublicacion, ID_usuario]
+      );
+      const publicacion = pubRes.rows[0];
+
+      if (!publicacion || !publicacion.en_carrito) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: `La publicación ${idPublicacion} no está en tu carrito` });
+      }
+      if (publicacion.id_vendedor === ID_usuario) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'No puedes comprar tu propia publicación' });
+      }
+      if (publicacion.estado !== 'activa') {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: `"${publicacion.nombre_articulo}" ya no está disponible` });
+      }
+
+      const ordenRes = await client.query(
+        `INSERT INTO ordenes (ID_publicacion, ID_comprador, ID_vendedor, precio)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ID_orden AS id_orden, ID_publicacion AS id_publicacion, ID_comprador AS id_comprador,
+                   ID_vendedor AS id_vendedor, precio, estado, fecha_creacion, fecha_estado`,
+        [idPublicacion, ID_usuario, publicacion.id_vendedor, publicacion.precio]
+      );
+      const orden = { ...ordenRes.rows[0], nombre_articulo: publicacion.nombre_articulo };
+
+      await client.query(
+        `INSERT INTO historial_estados_orden (ID_orden, estado_anterior, estado_nuevo, ID_usuario)
+         VALUES ($1, NULL, 'pendiente', $2)`,
+        [orden.id_orden, ID_usuario]
+      );
+      await cambiarEstadoPublicacion(client, idPublicacion, 'activa', 'reservada', `usuario:${ID_usuario}`);
+      await client.query(
+        'DELETE FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2',
+        [ID_usuario, idPublicacion]
+      );
+
+      creadas.push(orden);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creando órdenes:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+
+  for (const orden of creadas) {
+    emitirEventoUsuario(ID_usuario, 'carrito', { accion: 'eliminado', ID_publicacion: orden.id_publicacion });
+    await notificarOrden(orden, 'pendiente', orden.id_vendedor)
+      .catch((error) => console.error('❌ Error notificando orden:', error));
+  }
+
+  res.status(201).json({ mensaje: 'Solicitudes de compra creadas', ordenes: creadas });
+});
+
+// 📍 ENDPOINT: Órdenes del usuario. Query: rol=comprador|vendedor, estado
+app.get('/ordenes', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const { rol, estado } = req.query;
+
+  if (rol !== undefined && rol !== 'comprador' && rol !== 'vendedor') {
+    return res.status(400).json({ error: 'rol debe ser comprador o vendedor' });
+  }
+  if (estado !== undefined && !esEstadoOrden(estado)) {
+    return res.status(400).json({ error: 'Estado inválido' });
+  }
+
+  try {
+    const result = await pool.query(
+      `${SELECT_ORDEN}
+       WHERE (($2::text IS NULL OR $2 = 'comprador') AND o.ID_comprador = $1
+           OR ($2::text IS NULL OR $2 = 'vendedor') AND o.ID_vendedor = $1)
+         AND ($3::text IS NULL OR o.estado = $3)
+       ORDER BY o.fecha_creacion DESC`,
+      [ID_usuario, rol ?? null, estado ?? null]
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error('❌ Error obteniendo órdenes:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Detalle de una orden con su historial
+app.get('/ordenes/:id', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  try {
+    const result = await pool.query(
+      `${SELECT_ORDEN} WHERE o.ID_orden = $1 AND (o.ID_comprador = $2 OR o.ID_vendedor = $2)`,
+      [req.params.id, ID_usuario]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Orden no encontrada' });
+    }
+
+    const historial = await pool.query(
+      `SELECT estado_anterior, estado_nuevo, ID_usuario AS id_usuario, motivo, fecha
+       FROM historial_estados_orden WHERE ID_orden = $1 ORDER BY fecha`,
+      [req.params.id]
+    );
+
+    res.json({ ...result.rows[0], historial: historial.rows });
+  } catch (error) {
+    console.error('❌ Error obteniendo orden:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Cambiar estado de una orden. Body: { estado, motivo? }
+app.put('/ordenes/:id/estado', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const { estado, motivo } = req.body as { estado: EstadoOrden; motivo?: string };
+
+  if (!esEstadoOrden(estado)) {
+    return res.status(400).json({ error: 'Estado inválido' });
+  }
+
+  const client = await pool.connect();
+  let orden: any;
+  let destinatario: number;
+  let desplazados: number[];
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `${SELECT_ORDEN} WHERE o.ID_orden = $1 FOR UPDATE OF o`,
+      [req.params.id]
+    );
+    orden = result.rows[0];
+
+    const rol: RolOrden | null = !orden ? null
+      : orden.id_comprador === ID_usuario ? 'comprador'
+      : orden.id_vendedor === ID_usuario ? 'vendedor'
+      : null;
+
+    if (!orden || !rol) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Orden no encontrada' });
+    }
+
+    const permitidos = TRANSICIONES_ORDEN[orden.estado as EstadoOrden][estado];
+    if (!permitidos) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: `No se puede pasar de ${orden.estado} a ${estado}` });
+    }
+    if (!permitidos.includes(rol)) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: `Solo el ${permitidos.join(' o el ')} puede marcar la orden como ${estado}` });
+    }
+
+    desplazados = await aplicarTransicionOrden(client, orden, estado, ID_usuario, motivo ?? null);
+    await client.query('COMMIT');
+
+    destinatario = rol === 'comprador' ? orden.id_vendedor : orden.id_comprador;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error cambiando estado de orden:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+
+  await notificarTransicionOrden(orden, estado, destinatario, desplazados)
+    .catch((error) => console.error('❌ Error notificando orden:', error));
+
+  res.json({ mensaje: 'Orden actualizada', orden: { ...orden, estado } });
+});
+
+// ==================== PAGOS ====================
+type EstadoPago = 'pendiente' | 'aprobado' | 'rechazado' | 'anulado' | 'reembolsado' | 'error';
+
+// Evento de pago ya verificado y normalizado
+interface EventoPago {
+  idExterno: string;
+  idTransaccion: string;
+  estado: EstadoPago;
+  montoCentavos: number;
+  payload: any;
+}
+
+// Contrato común de las pasarelas (montos en centavos de COP)
+interface ProveedorPago {
+  nombre: string;
+  crearIntencion(params: {
+    referencia: string;
+    montoCentavos: number;
+    descripcion: string;
+  }): Promise<{ idExterno: string; urlPago: string }>;
+  // Devuelve null si la firma no es válida
+  verificarWebhook(req: Request): EventoPago | null;
+  reembolsar(idTransaccion: string, montoCentavos: number): Promise<{ idReembolso: string }>;
+}
+
+const ESTADOS_PAGO: EstadoPago[] = ['pendiente', 'aprobado', 'rechazado', 'anulado', 'reembolsado', 'error'];
+
+// ---- Wompi (https://docs.wompi.co) ----
+const WOMPI_URL_API = process.env.WOMPI_URL_API || 'https://sandbox.wompi.co/v1';
+const ESTADOS_WOMPI: Record<string, EstadoPago> = {
+  PENDING: 'pendiente',
+  APPROVED: 'aprobado',
+  DECLINED: 'rechazado',
+  VOIDED: 'anulado',
+  ERROR: 'error',
+};
+
+const proveedorWompi: ProveedorPago = {
+  nombre: 'wompi',
+
+  async crearIntencion({ referencia, montoCentavos, descripcion }) {
+    const response = await axios.post<{ data: { id: string } }>(
+      `${WOMPI_URL_API}/payment_links`,
+      {
+        name: `Orden ${referencia}`,
+        description: descripcion,
+        single_use: true,
+        collect_shipping: false,
+        currency: 'COP',
+        amount_in_cents: montoCentavos,
+        sku: referencia,
+        redirect_url: process.env.URL_REDIRECCION_PAGO,
+      },
+      { headers: { Authorization: `Bearer ${process.env.WOMPI_PRIVATE_KEY}` } }
     );
 
-    console.log(`👥 ${compradoresRes.rows.length} compradores encontrados`);
+    const idExterno = response.data.data.id;
+    return { idExterno, urlPago: `https://checkout.wompi.co/l/${idExterno}` };
+  },
 
-    const compradores = compradoresRes.rows;
+  // Firma: SHA256 de los valores de signature.properties + timestamp + secreto de eventos
+  verificarWebhook(req) {
+    const { data, signature, timestamp } = req.body || {};
+    const transaccion = data?.transaction;
+    if (!transaccion || !signature?.checksum || !Array.isArray(signature.properties)) return null;
 
-    // Transacción: eliminar publicación y carrito
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
-      
-      await client.query('DELETE FROM com_ventas WHERE ID_publicacion = $1', [idPublicacion]);
-      await client.query('DELETE FROM carrito WHERE ID_publicacion = $1', [idPublicacion]);
-      
+    const valores = signature.properties.map((ruta: string) =>
+      ruta.split('.').reduce((obj: any, clave: string) => obj?.[clave], data)
+    );
+    const esperado = crypto
+      .createHash('sha256')
+      .update(`${valores.join('')}${timestamp}${process.env.WOMPI_EVENTS_SECRET}`)
+      .digest('hex');
+
+    const a = Buffer.from(esperado);
+    const b = Buffer.from(String(signature.checksum).toLowerCase());
+    if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null;
+
+    return {
+      idExterno: transaccion.payment_link_id,
+      idTransaccion: transaccion.id,
+      estado: ESTADOS_WOMPI[transaccion.status] ?? 'error',
+      montoCentavos: transaccion.amount_in_cents,
+      payload: req.body,
+    };
+  },
+
+  // Wompi permite anular transacciones aprobadas con tarjeta
+  async reembolsar(idTransaccion, montoCentavos) {
+    const response = await axios.post<{ data: { id?: string; transaction?: { id: string } } }>(
+      `${WOMPI_URL_API}/transactions/${idTransaccion}/void`,
+      { amount_in_cents: montoCentavos },
+      { headers: { Authorization: `Bearer ${process.env.WOMPI_PRIVATE_KEY}` } }
+    );
+    return { idReembolso: response.data.data.id ?? response.data.data.transaction?.id ?? idTransaccion };
+  },
+};
+
+// ---- Proveedor local para pruebas sin conexión ----
+// Los webhooks se firman con HMAC(PAGOS_FAKE_SECRET, "idExterno.idTransaccion.estado.monto")
+const PAGOS_FAKE_SECRET = process.env.PAGOS_FAKE_SECRET || 'secreto-local';
+
+const firmarEventoFake = (evento: { idExterno: string; idTransaccion: string; estado: string; montoCentavos: number }) =>
+  crypto
+    .createHmac('sha256', PAGOS_FAKE_SECRET)
+    .update(`${evento.idExterno}.${evento.idTransaccion}.${evento.estado}.${evento.montoCentavos}`)
+    .digest('hex');
+
+const proveedorFake: ProveedorPago = {
+  nombre: 'fake',
+
+  async crearIntencion() {
+    const idExterno = `fake_link_${crypto.randomUUID()}`;
+    return { idExterno, urlPago: `/pagos/fake/${idExterno}` };
+  },
+
+  verificarWebhook(req) {
+    const { idExterno, idTransaccion, estado, montoCentavos } = req.body || {};
+    const firma = req.headers['x-firma'];
+    if (!idExterno || !idTransaccion || !estado || typeof firma !== 'string') return null;
+
+    const a = Buffer.from(firmarEventoFake({ idExterno, idTransaccion, estado, montoCentavos }));
+    const b = Buffer.from(firma);
+    if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null;
+
+    return { idExterno, idTransaccion, estado, montoCentavos: Number(montoCentavos), payload: req.body };
+  },
+
+  async reembolsar(idTransaccion) {
+    return { idReembolso: `fake_refund_${idTransaccion}` };
+  },
+};
+
+const PROVEEDORES_PAGO: Record<string, ProveedorPago> = {
+  wompi: proveedorWompi,
+  fake: proveedorFake,
+};
+
+// Sin valor por defecto: un despliegue sin configurar no debe quedar cobrando con el proveedor de pruebas
+const NOMBRE_PROVEEDOR_PAGOS = process.env.PROVEEDOR_PAGOS;
+if (!NOMBRE_PROVEEDOR_PAGOS) {
+  throw new Error(`Falta la variable de entorno PROVEEDOR_PAGOS (${Object.keys(PROVEEDORES_PAGO).join(' o ')})`);
+}
+if (!Object.prototype.hasOwnProperty.call(PROVEEDORES_PAGO, NOMBRE_PROVEEDOR_PAGOS)) {
+  throw new Error(`PROVEEDOR_PAGOS desconocido: ${NOMBRE_PROVEEDOR_PAGOS}`);
+}
+const proveedorPagos = PROVEEDORES_PAGO[NOMBRE_PROVEEDOR_PAGOS];
+
+// El proveedor fake aprueba pagos sin cobrar nada y su secreto por defecto es público.
+// Su webhook solo responde si es el proveedor configurado, así que vetarlo en producción
+// también deja fuera el secreto 'secreto-local'
+if (process.env.NODE_ENV === 'production' && proveedorPagos === proveedorFake) {
+  throw new Error('PROVEEDOR_PAGOS=fake no está permitido en producción');
+}
+
+const aCentavos = (monto: number | string) => Math.round(Number(monto) * 100);
+
+// Avisar a ambas partes que el cobro de una orden se anuló. Si la orden estaba pagada ya volvió
+// a 'aceptada'; si ya se había entregado queda igual y se revisa a mano
+async function notificarPagoAnulado(orden: any) {
+  const articulo = orden.nombre_articulo || 'Artículo';
+  const revertida = orden.estado === 'pagada';
+  const estado: EstadoOrden = revertida ? 'aceptada' : orden.estado;
+  const cuerpo = revertida
+    ? `Se anuló el pago de "${articulo}". La orden vuelve a esperar el pago: no la entregues hasta que se confirme uno nuevo.`
+    : `Se anuló el pago de "${articulo}" y la orden figura como ${orden.estado}. Revisa la orden.`;
+
+  for (const destinatario of [orden.id_comprador, orden.id_vendedor]) {
+    if (!destinatario) continue;
+    emitirEventoUsuario(destinatario, 'orden', { ...orden, estado });
+    await guardarNotificacionBD(destinatario, 'Pago anulado ⚠️', cuerpo, {
+      tipo: 'orden',
+      ID_orden: orden.id_orden,
+      ID_publicacion: orden.id_publicacion,
+      estado,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+// Aplicar un evento verificado de forma idempotente y avanzar la orden si el pago quedó aprobado
+async function conciliarPago(proveedor: ProveedorPago, evento: EventoPago) {
+  const client = await pool.connect();
+  let ordenPagada: any = null;
+  let ordenPagoAnulado: any = null;
+  let pagoSobrante: { id_pago: number; estadoOrden: string } | null = null;
+
+  try {
+    await client.query('BEGIN');
+
+    const registrado = await client.query(
+      `INSERT INTO eventos_pago (proveedor, id_transaccion, estado, payload)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (proveedor, id_transaccion, estado) DO NOTHING
+       RETURNING ID_evento`,
+      [proveedor.nombre, evento.idTransaccion, evento.estado, JSON.stringify(evento.payload)]
+    );
+    if (registrado.rows.length === 0) {
+      await client.query('ROLLBACK');
+      console.log(`🔁 Evento de pago repetido (${evento.idTransaccion}, ${evento.estado})`);
+      return { duplicado: true };
+    }
+
+    const pagoRes = await client.query(
+      `SELECT ID_pago AS id_pago, ID_orden AS id_orden, monto, estado
+       FROM pagos WHERE proveedor = $1 AND id_externo = $2 FOR UPDATE`,
+      [proveedor.nombre, evento.idExterno]
+    );
+    const pago = pagoRes.rows[0];
+    if (!pago) {
       await client.query('COMMIT');
-      console.log('🗑️ Publicación y carrito eliminados');
-      
-    } catch (txErr: any) {
+      console.error(`⚠️ Evento de pago sin pago asociado: ${evento.idExterno}`);
+      return { duplicado: false };
+    }
+
+    // Un pago rechazado puede reintentarse; uno aprobado (o en reembolso) solo puede anularse;
+    // los cerrados no cambian
+    const ignorado = pago.estado === 'anulado' || pago.estado === 'reembolsado'
+      || ((pago.estado === 'aprobado' || pago.estado === 'reembolso_pendiente') && evento.estado !== 'anulado');
+    if (ignorado) {
+      await client.query('COMMIT');
+      console.log(`ℹ️ Evento ${evento.estado} ignorado para pago ${pago.id_pago} (${pago.estado})`);
+      return { duplicado: false };
+    }
+    if (evento.estado === 'aprobado' && evento.montoCentavos !== aCentavos(pago.monto)) {
+      // No se acepta un pago por un monto distinto al de la orden
+      await client.query(
+        "UPDATE pagos SET estado = 'error', id_transaccion = $2, fecha_actualizacion = now() WHERE ID_pago = $1",
+        [pago.id_pago, evento.idTransaccion]
+      );
+      await client.query('COMMIT');
+      console.error(`⚠️ Monto de pago no coincide para pago ${pago.id_pago}`);
+      return { duplicado: false };
+    }
+
+    let estadoPago: string = evento.estado;
+
+    if (evento.estado === 'aprobado') {
+      const ordenRes = await client.query(
+        `${SELECT_ORDEN} WHERE o.ID_orden = $1 FOR UPDATE OF o`,
+        [pago.id_orden]
+      );
+      const orden = ordenRes.rows[0];
+      if (orden?.estado === 'aceptada') {
+        await aplicarTransicionOrden(client, orden, 'pagada', null, `pago ${proveedor.nombre} ${evento.idTransaccion}`);
+        ordenPagada = orden;
+      } else {
+        // La orden se canceló, se rechazó o ya estaba pagada: el cobro sobra y se devuelve
+        estadoPago = 'reembolso_pendiente';
+        pagoSobrante = { id_pago: pago.id_pago, estadoOrden: orden?.estado ?? 'inexistente' };
+      }
+    } else if (evento.estado === 'anulado' && pago.estado === 'aprobado') {
+      // Sin cobro la orden no puede seguir como pagada: vuelve a esperar el pago
+      const ordenRes = await client.query(
+        `${SELECT_ORDEN} WHERE o.ID_orden = $1 FOR UPDATE OF o`,
+        [pago.id_orden]
+      );
+      const orden = ordenRes.rows[0];
+      if (orden?.estado === 'pagada') {
+        await aplicarTransicionOrden(client, orden, 'aceptada', null, `pago anulado ${proveedor.nombre} ${evento.idTransaccion}`);
+      }
+      ordenPagoAnulado = orden ?? null;
+    }
+
+    await client.query(
+      'UPDATE pagos SET estado = $2, id_transaccion = $3, fecha_actualizacion = now() WHERE ID_pago = $1',
+      [pago.id_pago, estadoPago, evento.idTransaccion]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Si la pasarela falla el pago queda en reembolso_pendiente para revisarlo a mano
+  if (pagoSobrante) {
+    try {
+      const { idReembolso } = await proveedor.reembolsar(evento.idTransaccion, evento.montoCentavos);
+      await pool.query(
+        "UPDATE pagos SET estado = 'reembolsado', id_reembolso = $2, fecha_actualizacion = now() WHERE ID_pago = $1",
+        [pagoSobrante.id_pago, idReembolso]
+      );
+      console.log(`💸 Pago ${pagoSobrante.id_pago} reembolsado automáticamente (orden ${pagoSobrante.estadoOrden})`);
+    } catch (error: any) {
+      console.error(
+        `⚠️ Pago ${pagoSobrante.id_pago} aprobado para una orden ${pagoSobrante.estadoOrden} quedó en reembolso_pendiente:`,
+        error.response?.data || error
+      );
+    }
+  }
+
+  if (ordenPagada) {
+    await notificarOrden(ordenPagada, 'pagada', ordenPagada.id_vendedor)
+      .catch((error) => console.error('❌ Error notificando pago:', error));
+    await notificarOrden(ordenPagada, 'pagada', ordenPagada.id_comprador)
+      .catch((error) => console.error('❌ Error notificando pago:', error));
+  }
+
+  if (ordenPagoAnulado) {
+    await notificarPagoAnulado(ordenPagoAnulado)
+      .catch((error) => console.error('❌ Error notificando pago anulado:', error));
+  }
+
+  return { duplicado: false };
+}
+
+// 📍 ENDPOINT: Iniciar el pago de una orden aceptada (comprador)
+app.post('/ordenes/:id/pago', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+
+  try {
+    const ordenRes = await pool.query(
+      `${SELECT_ORDEN} WHERE o.ID_orden = $1 AND o.ID_comprador = $2`,
+      [req.params.id, ID_usuario]
+    );
+    const orden = ordenRes.rows[0];
+
+    if (!orden) {
+      return res.status(404).json({ error: 'Orden no encontrada' });
+    }
+    if (orden.estado !== 'aceptada') {
+      return res.status(409).json({ error: 'Solo se pueden pagar órdenes aceptadas por el vendedor' });
+    }
+
+    // Reutilizar la intención pendiente para no crear cobros duplicados
+    const existente = await pool.query(
+      `SELECT ID_pago AS id_pago, url_pago, estado FROM pagos
+       WHERE ID_orden = $1 AND proveedor = $2 AND estado = 'pendiente'
+       ORDER BY fecha_creacion DESC LIMIT 1`,
+      [orden.id_orden, proveedorPagos.nombre]
+    );
+    if (existente.rows.length > 0) {
+      return res.json(existente.rows[0]);
+    }
+
+    const { idExterno, urlPago } = await proveedorPagos.crearIntencion({
+      referencia: `orden-${orden.id_orden}`,
+      montoCentavos: aCentavos(orden.precio),
+      descripcion: orden.nombre_articulo,
+    });
+
+    const pagoRes = await pool.query(
+      `INSERT INTO pagos (ID_orden, proveedor, id_externo, monto, url_pago)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ID_pago AS id_pago, url_pago, estado`,
+      [orden.id_orden, proveedorPagos.nombre, idExterno, orden.precio, urlPago]
+    );
+
+    res.status(201).json(pagoRes.rows[0]);
+  } catch (error: any) {
+    console.error('❌ Error creando intención de pago:', error.response?.data || error);
+    res.status(502).json({ error: 'No se pudo iniciar el pago' });
+  }
+});
+
+// 📍 ENDPOINT: Webhook del proveedor de pagos
+app.post('/pagos/webhook/:proveedor', async (req: Request, res: Response) => {
+  const proveedor = PROVEEDORES_PAGO[req.params.proveedor];
+  if (!proveedor || proveedor !== proveedorPagos) {
+    return res.status(404).json({ error: 'Proveedor no configurado' });
+  }
+
+  const evento = proveedor.verificarWebhook(req);
+  if (!evento) {
+    console.error(`⚠️ Webhook de ${proveedor.nombre} con firma inválida`);
+    return res.status(401).json({ error: 'Firma inválida' });
+  }
+
+  try {
+    const { duplicado } = await conciliarPago(proveedor, evento);
+    res.json({ recibido: true, duplicado });
+  } catch (error) {
+    // 500 para que el proveedor reintente el envío
+    console.error('❌ Error conciliando pago:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Reembolsar el pago de una orden pagada y cancelarla (vendedor)
+// El pago se marca reembolso_pendiente y se confirma antes de llamar a la pasarela: si el
+// servidor cae a mitad, queda constancia de que el reembolso pudo haberse hecho
+app.post('/ordenes/:id/reembolso', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const { motivo } = req.body;
+
+  const client = await pool.connect();
+  let orden: any;
+  let desplazados: number[] = [];
+  let cancelada = false;
+
+  try {
+    await client.query('BEGIN');
+
+    const ordenRes = await client.query(
+      `${SELECT_ORDEN} WHERE o.ID_orden = $1 AND o.ID_vendedor = $2 FOR UPDATE OF o`,
+      [req.params.id, ID_usuario]
+    );
+    orden = ordenRes.rows[0];
+
+    if (!orden) {
       await client.query('ROLLBACK');
-      console.error('❌ Error en transacción:', txErr);
-      return res.status(500).json({ error: 'Error en transacción al eliminar publicación' });
-    } finally {
-      client.release();
+      return res.status(404).json({ error: 'Orden no encontrada' });
+    }
+    if (orden.estado !== 'pagada') {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Solo se pueden reembolsar órdenes pagadas y no entregadas' });
     }
 
-    // Crear notificaciones para los compradores
-    let notificacionesCreadas = 0;
-    for (const comprador of compradores) {
-      if (comprador.id_usuario !== publicacion.id_usuario) { // No notificar al vendedor
-        await guardarNotificacionBD(
-          comprador.id_usuario,
-          'Artículo ya no disponible ❌',
-          `El artículo "${nombreArticulo}" que tenías en tu carrito ya fue vendido.`,
-          {
-            tipo: 'articulo_vendido',
-            ID_publicacion: idPublicacion.toString(),
-            nombre_articulo: nombreArticulo,
-            timestamp: new Date().toISOString()
-          }
-        );
-        notificacionesCreadas++;
+    // Un reembolso_pendiente es un intento anterior que falló: se puede reintentar
+    const pagoRes = await client.query(
+      `SELECT ID_pago AS id_pago, proveedor, id_transaccion, monto FROM pagos
+       WHERE ID_orden = $1 AND estado IN ('aprobado', 'reembolso_pendiente') FOR UPDATE`,
+      [orden.id_orden]
+    );
+    const pago = pagoRes.rows[0];
+    if (!pago) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'La orden no tiene un pago aprobado en la plataforma' });
+    }
+
+    await client.query(
+      "UPDATE pagos SET estado = 'reembolso_pendiente', fecha_actualizacion = now() WHERE ID_pago = $1",
+      [pago.id_pago]
+    );
+    await client.query('COMMIT');
+
+    let idReembolso: string;
+    try {
+      ({ idReembolso } = await PROVEEDORES_PAGO[pago.proveedor].reembolsar(pago.id_transaccion, aCentavos(pago.monto)));
+    } catch (error: any) {
+      console.error('❌ Error reembolsando pago:', error.response?.data || error);
+      return res.status(502).json({ error: 'No se pudo procesar el reembolso, el pago quedó pendiente de reembolso' });
+    }
+
+    await client.query('BEGIN');
+
+    await client.query(
+      "UPDATE pagos SET estado = 'reembolsado', id_reembolso = $2, fecha_actualizacion = now() WHERE ID_pago = $1",
+      [pago.id_pago, idReembolso]
+    );
+
+    // Mientras se llamaba a la pasarela la orden pudo cambiar (p. ej. marcada como entregada)
+    const actualRes = await client.query(`${SELECT_ORDEN} WHERE o.ID_orden = $1 FOR UPDATE OF o`, [orden.id_orden]);
+    orden = actualRes.rows[0];
+    if (orden.estado === 'pagada') {
+      desplazados = await aplicarTransicionOrden(client, orden, 'cancelada', ID_usuario, motivo || 'Reembolso');
+      cancelada = true;
+    } else {
+      console.error(`⚠️ Pago ${pago.id_pago} reembolsado pero la orden ${orden.id_orden} quedó en ${orden.estado}`);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    // Si falla tras el COMMIT del primer paso, el pago sigue en reembolso_pendiente
+    await client.query('ROLLBACK');
+    console.error('❌ Error registrando reembolso:', error);
+    return res.status(500).json({ error: 'Error en el servidor' });
+  } finally {
+    client.release();
+  }
+
+  if (!cancelada) {
+    return res.json({ mensaje: 'Pago reembolsado', estado_orden: orden.estado });
+  }
+
+  await notificarTransicionOrden(orden, 'cancelada', orden.id_comprador, desplazados)
+    .catch((error) => console.error('❌ Error notificando reembolso:', error));
+
+  res.json({ mensaje: 'Pago reembolsado y orden cancelada' });
+});
+
+// 📍 ENDPOINT (solo proveedor fake): simular el resultado del pago como lo haría la pasarela
+// Solo el comprador de la orden puede simular su pago
+if (proveedorPagos === proveedorFake) {
+  app.post('/pagos/fake/:idExterno/simular', autenticarUsuario, async (req: Request, res: Response) => {
+    const { estado = 'aprobado' } = req.body;
+
+    if (!ESTADOS_PAGO.includes(estado)) {
+      return res.status(400).json({ error: `estado debe ser uno de: ${ESTADOS_PAGO.join(', ')}` });
+    }
+
+    try {
+      const pagoRes = await pool.query(
+        `SELECT p.monto FROM pagos p
+         JOIN ordenes o ON o.ID_orden = p.ID_orden
+         WHERE p.proveedor = 'fake' AND p.id_externo = $1 AND o.ID_comprador = $2`,
+        [req.params.idExterno, req.usuario!.ID_usuario]
+      );
+      if (pagoRes.rows.length === 0) {
+        return res.status(404).json({ error: 'Pago no encontrado' });
+      }
+
+      const evento = {
+        idExterno: req.params.idExterno,
+        idTransaccion: `fake_tx_${req.params.idExterno}`,
+        estado,
+        montoCentavos: aCentavos(pagoRes.rows[0].monto),
+      };
+
+      const resultado = await conciliarPago(proveedorFake, { ...evento, payload: evento });
+      res.json({ ...resultado, evento, firma: firmarEventoFake(evento) });
+    } catch (error) {
+      console.error('❌ Error simulando pago:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+}
+
+// ==================== RESEÑAS DE VENDEDORES ====================
+const LONGITUD_MAXIMA_RESENA = 1000;
+const LIMITE_RESENAS_DEFECTO = 20;
+
+// 📍 ENDPOINT: Calificar al vendedor de una orden entregada (una reseña por orden)
+app.post('/ordenes/:id/resena', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const calificacion = Number(req.body.calificacion);
+  const comentario = typeof req.body.comentario === 'string' ? req.body.comentario.trim() : null;
+
+  if (!Number.isInteger(calificacion) || calificacion < 1 || calificacion > 5) {
+    return res.status(400).json({ error: 'La calificación debe ser un entero entre 1 y 5' });
+  }
+  if (comentario && comentario.length > LONGITUD_MAXIMA_RESENA) {
+    return res.status(400).json({ error: `El comentario supera ${LONGITUD_MAXIMA_RESENA} caracteres` });
+  }
+
+  try {
+    const ordenRes = await pool.query(
+      `${SELECT_ORDEN} WHERE o.ID_orden = $1 AND o.ID_comprador = $2`,
+      [req.params.id, ID_usuario]
+    );
+    const orden = ordenRes.rows[0];
+
+    if (!orden) {
+      return res.status(404).json({ error: 'Orden no encontrada' });
+    }
+    if (orden.estado !== 'entregada') {
+      return res.status(409).json({ error: 'Solo puedes calificar compras entregadas' });
+    }
+    if (!orden.id_vendedor) {
+      return res.status(409).json({ error: 'El vendedor ya no tiene cuenta en la plataforma' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO resenas (ID_orden, ID_vendedor, ID_comprador, calificacion, comentario)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (ID_orden) DO NOTHING
+       RETURNING ID_resena AS id_resena, calificacion, comentario, fecha`,
+      [orden.id_orden, orden.id_vendedor, ID_usuario, calificacion, comentario || null]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({ error: 'Ya calificaste esta compra' });
+    }
+
+    await guardarNotificacionBD(
+      orden.id_vendedor,
+      'Recibiste una nueva reseña ⭐',
+      `${orden.nombre_comprador} te calificó con ${calificacion}/5 por "${orden.nombre_articulo}".`,
+      {
+        tipo: 'resena',
+        ID_resena: result.rows[0].id_resena,
+        ID_orden: orden.id_orden,
+        timestamp: new Date().toISOString()
       }
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error('❌ Error creando reseña:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
+  }
+});
+
+// 📍 ENDPOINT: Respuesta del vendedor a una reseña
+app.put('/resenas/:id/respuesta', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const respuesta = typeof req.body.respuesta === 'string' ? req.body.respuesta.trim() : '';
+
+  if (!respuesta) {
+    return res.status(400).json({ error: 'La respuesta no puede estar vacía' });
+  }
+  if (respuesta.length > LONGITUD_MAXIMA_RESENA) {
+    return res.status(400).json({ error: `La respuesta supera ${LONGITUD_MAXIMA_RESENA} caracteres` });
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE resenas SET respuesta = $3, fecha_respuesta = now()
+       WHERE ID_resena = $1 AND ID_vendedor = $2
+       RETURNING ID_resena AS id_resena, ID_comprador AS id_comprador, calificacion, comentario,
+                 respuesta, fecha, fecha_respuesta`,
+      [req.params.id, ID_usuario, respuesta]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Reseña no encontrada' });
+    }
+
+    const resena = result.rows[0];
+    if (resena.id_comprador) {
+      await guardarNotificacionBD(
+        resena.id_comprador,
+        'El vendedor respondió tu reseña 💬',
+        respuesta.length > 100 ? `${respuesta.slice(0, 97)}...` : respuesta,
+        {
+          tipo: 'resena',
+          ID_resena: resena.id_resena,
+          timestamp: new Date().toISOString()
+        }
+      );
     }
 
-    console.log(`✅ ${notificacionesCreadas} notificaciones creadas para compradores`);
-
-    res.json({ 
-      message: 'Publicación eliminada y compradores notificados',
-      notificacionesCreadas: notificacionesCreadas,
-      totalCompradores: compradores.length
-    });
-    
-  } catch (err: any) {
-    console.error('❌ Error en marcar-vendido:', err);
-    res.status(500).json({ 
-      error: 'Error en el servidor',
-      details: err.message 
-    });
+    const { id_comprador, ...publica } = resena;
+    res.json(publica);
+  } catch (error) {
+    console.error('❌ Error respondiendo reseña:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
   }
 });
 
+// 📍 ENDPOINT: Reseñas públicas de un vendedor. Query: limite, antes_de (ID_resena)
+app.get('/vendedores/:id/resenas', async (req: Request, res: Response) => {
+  // El ID del vendedor ya lo valida app.param; antes_de debe ser un ID de reseña
+  const limite = Math.min(Math.max(Math.trunc(Number(req.query.limite)) || LIMITE_RESENAS_DEFECTO, 1), 100);
+  const antesDe = req.query.antes_de ? idEntero(req.query.antes_de) : null;
 
+  if (req.query.antes_de && antesDe === null) {
+    return res.status(400).json({ error: 'Parámetros inválidos' });
+  }
 
-
-
-// Endpoint para obtener los artículos del carrito de un usuario
-app.get('/carrito/:id_usuario', async (req: Request, res: Response) => {
   try {
-    const { id_usuario } = req.params;
-    if (!id_usuario || isNaN(Number(id_usuario))) {
-      return res.status(400).json({ error: 'ID de usuario inválido' });
-    }
-
     const result = await pool.query(
-      `SELECT 
-        cv.ID_publicacion as id,
-        cv.nombre_Articulo,
-        cv.descripcion,
-        cv.precio,
-        cv.tipo_bicicleta,
-        u.nombre as nombre_vendedor,
-        u.telefono,
-        u.foto,
-        cv.ID_usuario as id_vendedor,
-        COALESCE(json_agg(f.url_foto) FILTER (WHERE f.url_foto IS NOT NULL), '[]') as fotos
-      FROM carrito c
-      JOIN com_ventas cv ON c.ID_publicacion = cv.ID_publicacion 
-      JOIN usuario u ON cv.ID_usuario = u.ID_usuario
-      LEFT JOIN com_ventas_fotos f ON cv.ID_publicacion = f.ID_publicacion
-      WHERE c.ID_usuario = $1
-      GROUP BY cv.ID_publicacion, u.nombre, u.telefono, u.foto, cv.ID_usuario`,
-      [id_usuario]
+      `SELECT r.ID_resena AS id_resena, r.calificacion, r.comentario, r.respuesta,
+              r.fecha, r.fecha_respuesta, COALESCE(cv.nombre_articulo, o.nombre_articulo) AS nombre_articulo,
+              u.nombre AS nombre_comprador, u.foto AS foto_comprador
+       FROM resenas r
+       JOIN ordenes o ON o.ID_orden = r.ID_orden
+       LEFT JOIN com_ventas cv ON cv.ID_publicacion = o.ID_publicacion
+       LEFT JOIN usuario u ON u.ID_usuario = r.ID_comprador
+       WHERE r.ID_vendedor = $1 AND ($2::int IS NULL OR r.ID_resena < $2)
+       ORDER BY r.ID_resena DESC
+       LIMIT $3`,
+      [req.params.id, antesDe, limite]
     );
-
-    res.status(200).json(result.rows);
+    res.json(result.rows);
   } catch (error) {
-    console.error('Error al obtener carrito:', error);
+    console.error('❌ Error obteniendo reseñas:', error);
     res.status(500).json({ error: 'Error en el servidor' });
   }
 });
 
-// Endpoint para eliminar un artículo del carrito
-app.delete('/eliminar-carrito', async (req: Request, res: Response) => {
-  console.log('🗑️ Solicitud DELETE recibida en /eliminar-carrito');
-  console.log('Body recibido:', req.body);
-  
+// Solo campos seguros: nunca correo, teléfono ni contraseña
+async function obtenerPerfilPublico(ID_usuario: number) {
+  const result = await pool.query(
+    `SELECT u.ID_usuario AS id_usuario, u.nombre, u.foto, u.foto_miniatura,
+            u.fecha_registro AS miembro_desde,
+            COALESCE(cal.promedio, 0) AS calificacion,
+            COALESCE(cal.total, 0) AS total_resenas,
+            (SELECT COUNT(*)::int FROM com_ventas cv
+              WHERE cv.ID_usuario = u.ID_usuario AND cv.estado = 'activa') AS publicaciones_activas,
+            (SELECT COUNT(*)::int FROM com_ventas cv
+              WHERE cv.ID_usuario = u.ID_usuario AND cv.estado = 'vendida') AS ventas,
+            (SELECT json_object_agg(calificacion, total) FROM (
+               SELECT calificacion, COUNT(*)::int AS total FROM resenas
+               WHERE ID_vendedor = u.ID_usuario GROUP BY calificacion
+             ) d) AS distribucion
+     FROM usuario u
+     LEFT JOIN calificaciones_vendedor cal ON cal.ID_vendedor = u.ID_usuario
+     WHERE u.ID_usuario = $1`,
+    [ID_usuario]
+  );
+
+  if (result.rows.length === 0) return null;
+  return { ...result.rows[0], distribucion: result.rows[0].distribucion || {} };
+}
+
+// 📍 ENDPOINT: Perfil público del vendedor con su calificación
+app.get('/vendedores/:id', async (req: Request, res: Response) => {
   try {
-    const { ID_usuario, ID_publicacion } = req.body;
-    
-    // Validación de campos
-    if (!ID_usuario || !ID_publicacion) {
-      console.error('❌ Faltan campos requeridos');
-      return res.status(400).json({ 
-        error: 'IDs de usuario y publicación son obligatorios',
-        received: req.body
-      });
-    }
-    
-    // Verificar existencia antes de eliminar
-    const existe = await pool.query(
-      'SELECT 1 FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2',
-      [ID_usuario, ID_publicacion]
-    );
-    
-    if (existe.rows.length === 0) {
-      console.error('❌ Artículo no encontrado en carrito');
-      return res.status(404).json({ 
-        error: 'Artículo no encontrado en el carrito',
-        details: `Usuario: ${ID_usuario}, Artículo: ${ID_publicacion}`
-      });
+    const perfil = await obtenerPerfilPublico(Number(req.params.id));
+    if (!perfil) {
+      return res.status(404).json({ error: 'Vendedor no encontrado' });
     }
-    
-    // Eliminar el artículo
-    const result = await pool.query(
-      'DELETE FROM carrito WHERE ID_usuario = $1 AND ID_publicacion = $2 RETURNING *',
-      [ID_usuario, ID_publicacion]
-    );
-    
-    console.log(`✅ Artículo eliminado:`, result.rows[0]);
-    
-    res.status(200).json({ 
-      success: true,
-      mensaje: 'Artículo eliminado del carrito',
-      data: result.rows[0]
-    });
-    
+    res.json(perfil);
   } catch (error) {
-    console.error('❌ Error en DELETE /eliminar-carrito:', error);
-    res.status(500).json({ 
-      error: 'Error al eliminar del carrito',
-      
-    });
+    console.error('❌ Error obteniendo perfil de vendedor:', error);
+    res.status(500).json({ error: 'Error en el servidor' });
   }
 });
 
+// ==================== ELIMINACIÓN EN CASCADA ====================
+// Las tablas base (carrito, notificaciones, com_ventas_fotos) no siempre tienen ON DELETE CASCADE,
+// así que las dependencias se borran explícitamente y en orden dentro de la transacción.
+// Las órdenes, pagos y reseñas no se borran: la base las deja sin publicación o sin usuario (SET NULL)
+
+// Borra publicaciones y sus filas relacionadas; devuelve las rutas del bucket a eliminar
+async function eliminarPublicacionesEnCascada(client: PoolClient, idsPublicaciones: number[]) {
+  if (idsPublicaciones.length === 0) return [];
+
+  // Las órdenes conservan el nombre del artículo para el historial de ambas partes
+  await client.query(
+    `UPDATE ordenes o SET nombre_articulo = cv.nombre_articulo
+     FROM com_ventas cv
+     WHERE cv.ID_publicacion = o.ID_publicacion AND o.ID_publicacion = ANY($1)`,
+    [idsPublicaciones]
+  );
+
+  await client.query('DELETE FROM carrito WHERE ID_publicacion = ANY($1)', [idsPublicaciones]);
+  const fotos = await client.query(
+    'DELETE FROM com_ventas_fotos WHERE ID_publicacion = ANY($1) RETURNING url_foto, url_tarjeta, url_miniatura',
+    [idsPublicaciones]
+  );
+  await client.query('DELETE FROM com_ventas WHERE ID_publicacion = ANY($1)', [idsPublicaciones]);
+
+  return [
+    ...fotos.rows.flatMap((f) => [f.url_foto, f.url_tarjeta, f.url_miniatura]),
+    ...idsPublicaciones.map((id) => `publicaciones/${id}/`),
+  ];
+}
+
+// Nombres de los objetos directamente dentro de una carpeta del bucket
+async function listarCarpetaBucket(carpeta: string) {
+  const nombres: string[] = [];
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await supabase.storage.from('articulos').list(carpeta, { limit: 1000, offset });
+    if (error) throw error;
+    nombres.push(...data.filter((item) => item.id).map((item) => `${carpeta}/${item.name}`));
+    if (data.length < 1000) return nombres;
+  }
+}
+
+// Acepta URLs públicas, rutas o carpetas terminadas en '/' (se borra todo su contenido)
+async function eliminarObjetosBucket(referencias: (string | null)[]) {
+  const rutas = new Set<string>();
+
+  for (const referencia of referencias) {
+    if (!referencia) continue;
+    if (referencia.endsWith('/')) {
+      (await listarCarpetaBucket(referencia.slice(0, -1))).forEach((ruta) => rutas.add(ruta));
+    } else {
+      const ruta = referencia.startsWith('http') ? rutaDesdeUrlPublica(referencia) : referencia;
+      if (ruta) rutas.add(ruta);
+    }
+  }
+
+  const pendientes = [...rutas];
+  for (let i = 0; i < pendientes.length; i += 1000) {
+    const { error } = await supabase.storage.from('articulos').remove(pendientes.slice(i, i + 1000));
+    if (error) console.error('⚠️ No se pudieron borrar objetos del bucket:', error);
+  }
+  return pendientes.length;
+}
+
+// Recorre el bucket completo (las carpetas vienen con id null)
+async function listarObjetosBucket(carpeta = ''): Promise<{ ruta: string; creado: string | null }[]> {
+  const objetos: { ruta: string; creado: string | null }[] = [];
+  for (let offset = 0; ; offset += 1000) {
+    const { data, error } = await supabase.storage.from('articulos').list(carpeta, { limit: 1000, offset });
+    if (error) throw error;
+
+    for (const item of data) {
+      const ruta = carpeta ? `${carpeta}/${item.name}` : item.name;
+      if (item.id) objetos.push({ ruta, creado: item.created_at ?? null });
+      else objetos.push(...(await listarObjetosBucket(ruta)));
+    }
+    if (data.length < 1000) return objetos;
+  }
+}
+
+// Minutos de gracia para no borrar objetos que se están adjuntando en este momento
+const GRACIA_RECONCILIACION_MINUTOS = 60;
+
+// Objetos del bucket a los que ninguna fila apunta (fotos, avatares ni subidas pendientes)
+async function buscarObjetosHuerfanos() {
+  const referenciados = await pool.query(
+    `SELECT url_foto AS url FROM com_ventas_fotos
+     UNION SELECT url_tarjeta FROM com_ventas_fotos
+     UNION SELECT url_miniatura FROM com_ventas_fotos
+     UNION SELECT foto FROM usuario
+     UNION SELECT foto_miniatura FROM usuario`
+  );
+  const pendientes = await pool.query('SELECT clave FROM subidas_pendientes');
+
+  const enUso = new Set<string>(pendientes.rows.map((r) => r.clave));
+  for (const { url } of referenciados.rows) {
+    const ruta = rutaDesdeUrlPublica(url);
+    if (ruta) enUso.add(ruta);
+  }
+
+  const limite = Date.now() - GRACIA_RECONCILIACION_MINUTOS * 60 * 1000;
+  return (await listarObjetosBucket()).filter(
+    (objeto) => !enUso.has(objeto.ruta) && (!objeto.creado || new Date(objeto.creado).getTime() < limite)
+  );
+}
+
 //Iniciar sesion como administrador
 app.post('/iniciar-administrador', async (req: Request, res: Response) =>{
   try{
@@ -791,17 +5192,31 @@ app.post('/iniciar-administrador', async (req: Request, res: Response) =>{
     }
     const result = await pool.query(
       //constulta sql
-      `SELECT usuario, contraseña, contraseña2 
+      `SELECT usuario, contraseña, contraseña2, rol 
       FROM usuarioadmin
-      WHERE usuario = $1 AND contraseña = $2 AND contraseña2 =$3`,
-    [usuario, contraseña, contraseña2]
+      WHERE usuario = $1`,
+    [usuario]
     ); 
     if(result.rows.length === 0) {
       return res.status(401).json({error: 'Credenciales incorrectas'})
     }
+    const verificacion1 = await verificarContraseña(contraseña, result.rows[0].contraseña);
+    const verificacion2 = await verificarContraseña(contraseña2, result.rows[0].contraseña2);
+    if(!verificacion1.valida || !verificacion2.valida) {
+      return res.status(401).json({error: 'Credenciales incorrectas'})
+    }
+    // Migrar contraseñas antiguas (texto plano) al nuevo formato
+    if(verificacion1.requiereRehash || verificacion2.requiereRehash) {
+      await pool.query(
+        'UPDATE usuarioadmin SET contraseña = $1, contraseña2 = $2 WHERE usuario = $3',
+        [await hashearContraseña(contraseña), await hashearContraseña(contraseña2), usuario]
+      );
+    }
+    const sesion: AdminToken = { usuario: result.rows[0].usuario, rol: result.rows[0].rol };
     res.status(200).json({
       mensaje: 'Inicio de sesion exitoso',
-      usuario: result.rows[0]
+      usuario: sesion,
+      token: jwt.sign(sesion, JWT_ADMIN_SECRET, { expiresIn: DURACION_TOKEN_ADMIN })
     })
   }catch (error){
     console.error('Error al iniciar sesion', error)
@@ -810,7 +5225,7 @@ app.post('/iniciar-administrador', async (req: Request, res: Response) =>{
 })
 
 //obtener usuarios - administrador
-app.get('/obtener-usuarios', async (req, res) => {
+app.get('/obtener-usuarios', autenticarAdmin('moderador', 'superadmin'), async (req, res) => {
   try {
     const result = await pool.query(`
       SELECT
@@ -822,6 +5237,7 @@ app.get('/obtener-usuarios', async (req, res) => {
       FROM usuario 
       `);
       console.log('Usuarios obtenidos:', result.rows.length);
+      await registrarAuditoria(req, 'listar_usuarios', null, null, { total: result.rows.length });
       res.status(200).json(result.rows); // ✔️ Devuelve JSON
     } catch (error) {
       console.error('Error al obtener usuarios:', error);
@@ -829,7 +5245,7 @@ app.get('/obtener-usuarios', async (req, res) => {
   }
 });
 // administrar publicaciones - administrador con múltiples fotos
-app.get('/obtener-publicaciones/:ID_usuario', async (req, res) => {
+app.get('/obtener-publicaciones/:ID_usuario', autenticarAdmin('moderador', 'superadmin'), async (req, res) => {
   try {
     const { ID_usuario } = req.params;
 
@@ -840,7 +5256,8 @@ app.get('/obtener-publicaciones/:ID_usuario', async (req, res) => {
         cv.descripcion,
         cv.precio,
         cv.tipo_bicicleta,
-        COALESCE(array_agg(cf.url_foto) FILTER (WHERE cf.url_foto IS NOT NULL), ARRAY[]::text[]) AS fotos, 
+        cv.estado,
+        COALESCE(json_agg(${fotoVariantesSQL('cf')} ORDER BY cf.orden NULLS LAST, cf.id_foto) FILTER (WHERE cf.url_foto IS NOT NULL), '[]') AS fotos, 
         u.nombre AS nombre_vendedor,
         u.foto
       FROM com_ventas cv
@@ -852,6 +5269,7 @@ app.get('/obtener-publicaciones/:ID_usuario', async (req, res) => {
     `, [ID_usuario]);
 
     console.log('Publicaciones obtenidas:', result.rows.length);
+    await registrarAuditoria(req, 'listar_publicaciones_usuario', 'usuario', Number(ID_usuario));
     res.status(200).json(result.rows);
 
   } catch (error) {
@@ -860,46 +5278,418 @@ app.get('/obtener-publicaciones/:ID_usuario', async (req, res) => {
   }
 });
 
-  //eliminar usuario - administrador
-  app.delete('/eliminar-usuario/:id', async (req, res) => {
+  //eliminar usuario - administrador (solo superadmin)
+  // Borra al usuario con sus publicaciones, carrito, notificaciones y archivos del bucket.
+  // Sus órdenes y pagos se conservan anonimizados para la contraparte y la contabilidad
+  app.delete('/eliminar-usuario/:id', autenticarAdmin('superadmin'), async (req, res) => {
+    const id = Number(req.params.id);
+    const client = await pool.connect();
     try {
-      const { id } = req.params;
-      await pool.query('DELETE FROM usuario WHERE ID_usuario = $1 RETURNING *', [id]);
-      res.status(200).json({ message: "Usuario eliminado correctamente" });
+      await client.query('BEGIN');
+
+      const usuarioRes = await client.query(
+        'SELECT ID_usuario as id_usuario, nombre, correo, foto, foto_miniatura FROM usuario WHERE ID_usuario = $1 FOR UPDATE',
+        [id]
+      );
+      if (usuarioRes.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: "Usuario no encontrado" });
+      }
+
+      // No se borra a alguien con una compra o venta a medio camino (puede haber dinero de por medio)
+      const ordenes = await client.query(
+        `SELECT ID_orden AS id_orden, estado FROM ordenes
+         WHERE ID_comprador = $1 OR ID_vendedor = $1
+         FOR UPDATE`,
+        [id]
+      );
+      if (ordenes.rows.some((o) => ESTADOS_ORDEN_EN_CURSO.includes(o.estado))) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: "El usuario tiene órdenes en curso; cancélalas o complétalas primero" });
+      }
+
+      const publicaciones = await client.query('SELECT ID_publicacion FROM com_ventas WHERE ID_usuario = $1', [id]);
+      const objetos = await eliminarPublicacionesEnCascada(client, publicaciones.rows.map((p) => p.id_publicacion));
+
+      const subidas = await client.query('DELETE FROM subidas_pendientes WHERE ID_usuario = $1 RETURNING clave', [id]);
+      await client.query('DELETE FROM carrito WHERE ID_usuario = $1', [id]);
+      await client.query('DELETE FROM notificaciones WHERE ID_usuario = $1', [id]);
+      await client.query('DELETE FROM codigos_reset WHERE correo = $1', [usuarioRes.rows[0].correo]);
+      await client.query('DELETE FROM resenas WHERE ID_vendedor = $1', [id]);
+      await client.query('DELETE FROM usuario WHERE ID_usuario = $1', [id]);
+      await client.query('COMMIT');
+
+      // Ya confirmado: si el bucket falla quedan huérfanos para /reconciliar-almacenamiento
+      const { foto, foto_miniatura, ...usuario } = usuarioRes.rows[0];
+      let archivosEliminados = 0;
+      try {
+        archivosEliminados = await eliminarObjetosBucket([
+          ...objetos,
+          ...subidas.rows.map((s) => s.clave),
+          foto,
+          foto_miniatura,
+          `avatares/${id}/`
+        ]);
+      } catch (error) {
+        console.error('⚠️ No se pudieron borrar los archivos del usuario eliminado:', error);
+      }
+
+      await registrarAuditoria(req, 'eliminar_usuario', 'usuario', id, {
+        ...usuario,
+        publicaciones: publicaciones.rows.length,
+        ordenes_anonimizadas: ordenes.rows.length,
+        archivos: archivosEliminados
+      });
+      res.status(200).json({ message: "Usuario eliminado correctamente", archivosEliminados });
     } catch (error) {
+      await client.query('ROLLBACK');
       console.error("Error al eliminar usuario:", error);
       res.status(500).json({ error: "Error al eliminar usuario" });
+    } finally {
+      client.release();
     }
   });
 
   //eliminar publicacion - administrador
 
 
-  app.delete('/eliminar-publicaciones-admin/:id', async (req, res) => {
+  // La publicación pasa a retirada_admin en lugar de borrarse, para conservar el historial.
+  // Con ?definitivo=true (solo superadmin) se borra con sus fotos, órdenes y archivos del bucket
+  app.delete('/eliminar-publicaciones-admin/:id', autenticarAdmin('moderador', 'superadmin'), async (req, res) => {
+    const { id } = req.params;
+    const definitivo = req.query.definitivo === 'true';
+
+    if (definitivo && req.admin!.rol !== 'superadmin') {
+      return res.status(403).json({ error: 'Solo un superadmin puede borrar publicaciones definitivamente' });
+    }
+
+    const client = await pool.connect();
     try {
-      const { id } = req.params;
-      const result = await pool.query(
-        'DELETE FROM com_ventas WHERE ID_publicacion = $1 RETURNING *',
+      await client.query('BEGIN');
+      const result = await client.query(
+        'SELECT * FROM com_ventas WHERE ID_publicacion = $1 FOR UPDATE',
         [id]
       );
       
       if (result.rowCount === 0) {
+        await client.query('ROLLBACK');
         return res.status(404).json({ error: 'Publicación no encontrada' });
       }
+
+      if (definitivo) {
+        if (await tieneOrdenEnCurso(client, Number(id))) {
+          await client.query('ROLLBACK');
+          return res.status(409).json({ error: 'La publicación tiene una orden en curso' });
+        }
+
+        const objetos = await eliminarPublicacionesEnCascada(client, [Number(id)]);
+        await client.query('COMMIT');
+
+        let archivosEliminados = 0;
+        try {
+          archivosEliminados = await eliminarObjetosBucket(objetos);
+        } catch (error) {
+          console.error('⚠️ No se pudieron borrar los archivos de la publicación:', error);
+        }
+        await registrarAuditoria(req, 'borrar_publicacion', 'publicacion', Number(id), {
+          nombre_articulo: result.rows[0].nombre_articulo,
+          ID_usuario: result.rows[0].id_usuario,
+          archivos: archivosEliminados
+        });
+        return res.json({ message: 'Publicación borrada definitivamente', archivosEliminados });
+      }
+
+      await cambiarEstadoPublicacion(client, Number(id), result.rows[0].estado, 'retirada_admin', `admin:${req.admin!.usuario}`);
+      await client.query('DELETE FROM carrito WHERE ID_publicacion = $1', [id]);
+      await client.query('COMMIT');
       
-      console.log('Se eliminó la publicación', result.rows[0]);
+      console.log('Se retiró la publicación', result.rows[0]);
+      await registrarAuditoria(req, 'eliminar_publicacion', 'publicacion', Number(id), {
+        nombre_articulo: result.rows[0].nombre_articulo,
+        ID_usuario: result.rows[0].id_usuario
+      });
       res.json({ message: 'Publicación eliminada con éxito', deleted: result.rows[0] });
     } catch (error) {
-      console.error('Error al eliminar publicación:', error);
+      await client.query('ROLLBACK');
+      console.error('Error al eliminar publicación:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    } finally {
+      client.release();
+    }
+  });
+
+
+  // reconciliar el bucket: sin ?aplicar=true solo lista los objetos huérfanos
+  app.post('/reconciliar-almacenamiento', autenticarAdmin('superadmin'), async (req, res) => {
+    const aplicar = req.query.aplicar === 'true';
+    try {
+      const huerfanos = await buscarObjetosHuerfanos();
+      const eliminados = aplicar ? await eliminarObjetosBucket(huerfanos.map((o) => o.ruta)) : 0;
+
+      if (aplicar) {
+        await registrarAuditoria(req, 'reconciliar_almacenamiento', null, null, { eliminados });
+      }
+      console.log(`🧹 Reconciliación del bucket: ${huerfanos.length} huérfanos, ${eliminados} eliminados`);
+      res.json({ huerfanos: huerfanos.map((o) => o.ruta), total: huerfanos.length, eliminados });
+    } catch (error) {
+      console.error('❌ Error reconciliando almacenamiento:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  // ---- Catálogo de categorías (superadmin) ----
+
+  // listado plano con inactivas y cuántas publicaciones usan cada categoría
+  app.get('/categorias-admin', autenticarAdmin('superadmin'), async (req, res) => {
+    try {
+      const result = await pool.query(
+        `SELECT c.ID_categoria AS id_categoria, c.tipo, c.nombre, c.slug, c.ID_padre AS id_padre,
+                c.orden, c.activa,
+                COALESCE(array_agg(a.alias) FILTER (WHERE a.alias IS NOT NULL), '{}') AS alias,
+                (SELECT COUNT(*)::int FROM com_ventas cv
+                  WHERE cv.ID_tipo_bicicleta = c.ID_categoria OR cv.ID_tipo_componente = c.ID_categoria) AS publicaciones
+         FROM categorias c
+         LEFT JOIN categorias_alias a ON a.ID_categoria = c.ID_categoria
+         GROUP BY c.ID_categoria
+         ORDER BY c.tipo, c.orden, c.nombre`
+      );
+      res.json(result.rows);
+    } catch (error) {
+      console.error('❌ Error obteniendo categorías:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  // textos libres de publicaciones que no corresponden a ninguna categoría
+  app.get('/categorias-admin/sin-mapear', autenticarAdmin('superadmin'), async (req, res) => {
+    try {
+      const result = await pool.query(
+        `SELECT 'bicicleta' AS tipo, tipo_bicicleta AS valor, COUNT(*)::int AS publicaciones
+         FROM com_ventas WHERE ID_tipo_bicicleta IS NULL AND COALESCE(tipo_bicicleta, '') <> ''
+         GROUP BY tipo_bicicleta
+         UNION ALL
+         SELECT 'componente', tipo_componente, COUNT(*)::int
+         FROM com_ventas WHERE ID_tipo_componente IS NULL AND COALESCE(tipo_componente, '') <> ''
+         GROUP BY tipo_componente
+         ORDER BY publicaciones DESC`
+      );
+      res.json(result.rows);
+    } catch (error) {
+      console.error('❌ Error obteniendo valores sin mapear:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  // el padre debe existir, ser del mismo tipo y no ser la categoría ni una de sus descendientes
+  const validarPadreCategoria = async (tipo: string, ID_padre: unknown, ID_categoria?: number) => {
+    if (ID_padre === null || ID_padre === undefined) return null;
+    const padre = await pool.query('SELECT tipo FROM categorias WHERE ID_categoria = $1', [Number(ID_padre)]);
+    if (padre.rows.length === 0 || padre.rows[0].tipo !== tipo) return 'La categoría padre no existe o es de otro tipo';
+    if (ID_categoria && (await idsSubarbolCategoria(ID_categoria)).includes(Number(ID_padre))) {
+      return 'Una categoría no puede quedar dentro de sí misma';
+    }
+    return null;
+  };
+
+  app.post('/categorias-admin', autenticarAdmin('superadmin'), async (req, res) => {
+    const { tipo, nombre, ID_padre = null, orden = 0 } = req.body;
+
+    if (!Object.keys(COLUMNAS_CATEGORIA).includes(tipo) || typeof nombre !== 'string' || !nombre.trim()) {
+      return res.status(400).json({ error: 'tipo (bicicleta | componente) y nombre son obligatorios' });
+    }
+
+    try {
+      const errorPadre = await validarPadreCategoria(tipo, ID_padre);
+      if (errorPadre) return res.status(400).json({ error: errorPadre });
+
+      const result = await pool.query(
+        `INSERT INTO categorias (tipo, nombre, slug, ID_padre, orden)
+         VALUES ($1, $2, categoria_slug($2), $3, $4)
+         ON CONFLICT (tipo, slug) DO NOTHING
+         RETURNING ID_categoria AS id_categoria, tipo, nombre, slug, ID_padre AS id_padre, orden, activa`,
+        [tipo, nombre.trim(), ID_padre, Number(orden) || 0]
+      );
+      if (result.rows.length === 0) {
+        return res.status(409).json({ error: 'Ya existe una categoría con ese nombre' });
+      }
+
+      await registrarAuditoria(req, 'crear_categoria', 'categoria', result.rows[0].id_categoria, result.rows[0]);
+      await migrarCategoriasTextoLibre();
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      console.error('❌ Error creando categoría:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  // renombrar, mover, reordenar o activar/desactivar. Al renombrar, el slug anterior queda como alias
+  app.put('/categorias-admin/:id', autenticarAdmin('superadmin'), async (req, res) => {
+    const id = Number(req.params.id);
+    const { nombre, ID_padre, orden, activa } = req.body;
+    const client = await pool.connect();
+
+    try {
+      const actualRes = await client.query(
+        'SELECT tipo, nombre, slug, ID_padre AS id_padre FROM categorias WHERE ID_categoria = $1',
+        [id]
+      );
+      const actual = actualRes.rows[0];
+      if (!actual) {
+        return res.status(404).json({ error: 'Categoría no encontrada' });
+      }
+      if (nombre !== undefined && (typeof nombre !== 'string' || !nombre.trim())) {
+        return res.status(400).json({ error: 'El nombre no puede estar vacío' });
+      }
+      if (ID_padre !== undefined) {
+        const errorPadre = await validarPadreCategoria(actual.tipo, ID_padre, id);
+        if (errorPadre) return res.status(400).json({ error: errorPadre });
+      }
+
+      await client.query('BEGIN');
+      const result = await client.query(
+        `UPDATE categorias SET
+           nombre = COALESCE($2, nombre),
+           slug = COALESCE(categoria_slug($2), slug),
+           ID_padre = CASE WHEN $3 THEN $4::int ELSE ID_padre END,
+           orden = COALESCE($5, orden),
+           activa = COALESCE($6, activa)
+         WHERE ID_categoria = $1
+         RETURNING ID_categoria AS id_categoria, tipo, nombre, slug, ID_padre AS id_padre, orden, activa`,
+        [id, nombre?.trim() ?? null, ID_padre !== undefined, ID_padre ?? null,
+         orden === undefined ? null : Number(orden), typeof activa === 'boolean' ? activa : null]
+      );
+      const categoria = result.rows[0];
+
+      if (categoria.slug !== actual.slug) {
+        await client.query(
+          `INSERT INTO categorias_alias (tipo, alias, ID_categoria) VALUES ($1, $2, $3)
+           ON CONFLICT (tipo, alias) DO UPDATE SET ID_categoria = EXCLUDED.ID_categoria`,
+          [actual.tipo, actual.slug, id]
+        );
+        const { texto, id: columnaId } = COLUMNAS_CATEGORIA[actual.tipo as TipoCategoria];
+        await client.query(`UPDATE com_ventas SET ${texto} = $1 WHERE ${columnaId} = $2`, [categoria.nombre, id]);
+      }
+      await client.query('COMMIT');
+
+      await registrarAuditoria(req, 'editar_categoria', 'categoria', id, { antes: actual, despues: categoria });
+      res.json(categoria);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23505') {
+        return res.status(409).json({ error: 'Ya existe una categoría con ese nombre' });
+      }
+      console.error('❌ Error editando categoría:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    } finally {
+      client.release();
+    }
+  });
+
+  // solo se borran categorías sin hijas ni publicaciones; si no, desactivarlas con PUT
+  app.delete('/categorias-admin/:id', autenticarAdmin('superadmin'), async (req, res) => {
+    const id = Number(req.params.id);
+    try {
+      const uso = await pool.query(
+        `SELECT
+           (SELECT COUNT(*)::int FROM categorias WHERE ID_padre = $1) AS hijas,
+           (SELECT COUNT(*)::int FROM com_ventas WHERE ID_tipo_bicicleta = $1 OR ID_tipo_componente = $1) AS publicaciones,
+           (SELECT COUNT(*)::int FROM busquedas_guardadas
+            WHERE ID_tipo_bicicleta = $1 OR ID_tipo_componente = $1) AS busquedas_guardadas`,
+        [id]
+      );
+      // Las búsquedas guardadas se borrarían en cascada sin avisar a sus dueños
+      const { hijas, publicaciones, busquedas_guardadas } = uso.rows[0];
+      if (hijas > 0 || publicaciones > 0 || busquedas_guardadas > 0) {
+        return res.status(409).json({
+          error: 'La categoría está en uso; desactívala en lugar de borrarla',
+          hijas,
+          publicaciones,
+          busquedas_guardadas,
+        });
+      }
+
+      const result = await pool.query(
+        'DELETE FROM categorias WHERE ID_categoria = $1 RETURNING tipo, nombre',
+        [id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Categoría no encontrada' });
+      }
+
+      await registrarAuditoria(req, 'eliminar_categoria', 'categoria', id, result.rows[0]);
+      res.json({ message: 'Categoría eliminada' });
+    } catch (error) {
+      console.error('❌ Error eliminando categoría:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  // agregar un alias (p. ej. un texto de /categorias-admin/sin-mapear) y asociar las publicaciones que coincidan
+  app.post('/categorias-admin/:id/alias', autenticarAdmin('superadmin'), async (req, res) => {
+    const id = Number(req.params.id);
+    const { alias } = req.body;
+
+    if (typeof alias !== 'string' || !alias.trim()) {
+      return res.status(400).json({ error: 'El alias es obligatorio' });
+    }
+
+    try {
+      const result = await pool.query(
+        `INSERT INTO categorias_alias (tipo, alias, ID_categoria)
+         SELECT c.tipo, categoria_slug($2), c.ID_categoria FROM categorias c
+         WHERE c.ID_categoria = $1
+           AND NOT EXISTS (SELECT 1 FROM categorias o WHERE o.tipo = c.tipo AND o.slug = categoria_slug($2))
+         ON CONFLICT (tipo, alias) DO UPDATE SET ID_categoria = EXCLUDED.ID_categoria
+         RETURNING tipo, alias`,
+        [id, alias]
+      );
+      if (result.rows.length === 0) {
+        return res.status(409).json({ error: 'La categoría no existe o el alias ya es el nombre de otra categoría' });
+      }
+
+      await migrarCategoriasTextoLibre();
+      await registrarAuditoria(req, 'agregar_alias_categoria', 'categoria', id, result.rows[0]);
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      console.error('❌ Error agregando alias:', error);
+      res.status(500).json({ error: 'Error en el servidor' });
+    }
+  });
+
+  //consultar auditoría - administrador (solo superadmin)
+  app.get('/auditoria-admin', autenticarAdmin('superadmin'), async (req, res) => {
+    try {
+      const limite = Math.min(Number(req.query.limite) || 100, 500);
+      const result = await pool.query(
+        `SELECT ID_auditoria as id_auditoria, admin_usuario, accion, tipo_objetivo,
+                ID_objetivo as id_objetivo, detalle, fecha
+         FROM auditoria_admin
+         ORDER BY fecha DESC
+         LIMIT $1`,
+        [limite]
+      );
+      res.json(result.rows);
+    } catch (error) {
+      console.error('Error al obtener auditoría:', error);
       res.status(500).json({ error: 'Error en el servidor' });
     }
   });
 
 
 // publicaciones del usuario logueado
-app.get('/obtener-publicaciones-usuario-logueado/:ID_usuario', async (req, res) => {
+// Query opcional: estado (p. ej. ?estado=vendida para el historial de ventas)
+app.get('/obtener-publicaciones-usuario-logueado/:ID_usuario', autenticarUsuario, async (req, res) => {
   try {
     const { ID_usuario } = req.params;
+    const estado = req.query.estado as string | undefined;
+
+    if (!esPropietario(req, ID_usuario)) {
+      return res.status(403).json({ error: 'No autorizado' });
+    }
+
+    if (estado !== undefined && !esEstadoPublicacion(estado)) {
+      return res.status(400).json({ error: 'Estado inválido' });
+    }
 
     const result = await pool.query(
       `
@@ -909,18 +5699,26 @@ app.get('/obtener-publicaciones-usuario-logueado/:ID_usuario', async (req, res)
         cv.descripcion,
         cv.precio,
         cv.tipo_bicicleta,
+        cv.estado,
+        cv.fecha_creacion,
+        cv.fecha_estado,
+        cv.fecha_venta,
         COALESCE(
-          json_agg(cvf.url_foto) FILTER (WHERE cvf.url_foto IS NOT NULL),
+          json_agg(${fotoVariantesSQL('cvf')} ORDER BY cvf.orden NULLS LAST, cvf.id_foto) FILTER (WHERE cvf.url_foto IS NOT NULL),
           '[]'
-        ) AS fotos
+        ) AS fotos,
+        -- "Guardado por N personas" (favoritos) y cuántos lo tienen en el carrito
+        (SELECT COUNT(*)::int FROM favoritos fav WHERE fav.ID_publicacion = cv.ID_publicacion) AS guardado_por,
+        (SELECT COUNT(*)::int FROM carrito c WHERE c.ID_publicacion = cv.ID_publicacion) AS en_carritos
       FROM com_ventas cv
       JOIN usuario u ON cv.ID_usuario = u.ID_usuario
       LEFT JOIN com_ventas_fotos cvf ON cv.ID_publicacion = cvf.ID_publicacion
       WHERE cv.ID_usuario = $1
+        AND ($2::text IS NULL OR cv.estado = $2)
       GROUP BY cv.ID_publicacion, cv.nombre_Articulo, cv.descripcion, cv.precio, cv.tipo_bicicleta
       ORDER BY cv.ID_publicacion DESC;
       `,
-      [ID_usuario]
+      [ID_usuario, estado ?? null]
     );
 
     console.log('Publicaciones obtenidas:', result.rows.length);
@@ -933,20 +5731,75 @@ app.get('/obtener-publicaciones-usuario-logueado/:ID_usuario', async (req, res)
 });
 
 
- // Ruta para el chat
-app.post("/chat", async (req: Request, res: Response) => {
-  const { message } = req.body;
+// ==================== ASISTENTE DE COMPRAS ====================
+const MAX_HISTORIAL_ASISTENTE = 20;
+const MAX_RONDAS_HERRAMIENTAS = 4;
+const LIMITE_RESULTADOS_ASISTENTE = 5;
+const MAX_MENSAJES_ASISTENTE_HORA = 30;
+
+const PROMPT_ASISTENTE = `Eres el asistente de compras de Arturo Ruedas, un marketplace colombiano de bicicletas y repuestos.
+Responde en español, breve y amable. Para recomendar artículos usa SIEMPRE las herramientas: nunca inventes
+publicaciones, precios ni disponibilidad. Cuando menciones una publicación escribe su ID así: [#123].
+Si no hay resultados, dilo y sugiere ampliar la búsqueda. Los precios están en pesos colombianos.`;
+
+// Partes de un mensaje con imágenes (formato de chat completions)
+type ParteMensajeLLM =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// Mensajes en el formato de chat completions (incluye las respuestas de herramientas)
+interface MensajeLLM {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | ParteMensajeLLM[];
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
 
-  if (!message) {
-    return res.status(400).json({ error: "El campo 'message' es requerido" });
-  }
+interface HerramientaLLM {
+  nombre: string;
+  descripcion: string;
+  parametros: Record<string, any>; // JSON Schema
+}
 
-  try {
+interface RespuestaLLM {
+  contenido: string | null;
+  // error: los argumentos no se pudieron leer; se le devuelve al modelo en lugar de ejecutar
+  llamadas: { id: string; nombre: string; argumentos: Record<string, unknown>; error?: string }[];
+}
+
+// Contrato común de los modelos de lenguaje. herramientaForzada obliga a responder llamando esa herramienta
+interface ProveedorLLM {
+  nombre: string;
+  completar(
+    mensajes: MensajeLLM[],
+    herramientas: HerramientaLLM[],
+    opciones?: { herramientaForzada?: string }
+  ): Promise<RespuestaLLM>;
+}
+
+// Texto de un mensaje, ignorando las imágenes
+const textoMensajeLLM = (mensaje: MensajeLLM) =>
+  typeof mensaje.content === 'string' || mensaje.content === null
+    ? mensaje.content || ''
+    : mensaje.content.map((parte) => (parte.type === 'text' ? parte.text : '')).join(' ');
+
+// ---- OpenAI ----
+const proveedorOpenAI: ProveedorLLM = {
+  nombre: 'openai',
+
+  async completar(mensajes, herramientas, opciones = {}) {
     const response = await axios.post<OpenAIChatResponse>(
       "https://api.openai.com/v1/chat/completions",
       {
-        model: "gpt-4o",
-        messages: [{ role: "user", content: message }],
+        model: process.env.OPENAI_MODELO || "gpt-4o",
+        messages: mensajes,
+        tools: herramientas.map((h) => ({
+          type: 'function',
+          function: { name: h.nombre, description: h.descripcion, parameters: h.parametros },
+        })),
+        ...(opciones.herramientaForzada && {
+          tool_choice: { type: 'function', function: { name: opciones.herramientaForzada } },
+        }),
       },
       {
         headers: {
@@ -956,11 +5809,457 @@ app.post("/chat", async (req: Request, res: Response) => {
       }
     );
 
-    const reply = response.data.choices[0].message.content;
-    res.json({ reply });
+    const mensaje = response.data.choices[0].message;
+    return {
+      contenido: mensaje.content,
+      llamadas: (mensaje.tool_calls || []).map((llamada) => {
+        const base = { id: llamada.id, nombre: llamada.function.name };
+        try {
+          return { ...base, argumentos: JSON.parse(llamada.function.arguments || '{}') };
+        } catch {
+          return { ...base, argumentos: {}, error: 'Los argumentos no son JSON válido' };
+        }
+      }),
+    };
+  },
+};
+
+// ---- Local (desarrollo y pruebas, sin red) ----
+// Busca con el texto del usuario y resume los resultados de la herramienta.
+// Con herramienta forzada elige, para cada enum del esquema, el valor que aparezca en el texto
+const proveedorLLMLocal: ProveedorLLM = {
+  nombre: 'local',
+
+  async completar(mensajes, herramientas, opciones = {}) {
+    const ultimo = mensajes[mensajes.length - 1];
+    const texto = textoMensajeLLM(ultimo);
+
+    const forzada = herramientas.find((h) => h.nombre === opciones.herramientaForzada);
+    if (forzada) {
+      const argumentos: Record<string, unknown> = {};
+      for (const [campo, esquema] of Object.entries<any>(forzada.parametros.properties || {})) {
+        if (Array.isArray(esquema.enum)) {
+          argumentos[campo] = esquema.enum.find(
+            (v: unknown) => typeof v === 'string' && texto.toLowerCase().includes(v.toLowerCase())
+          ) ?? null;
+        } else if (esquema.type === 'string') {
+          argumentos[campo] = texto.trim();
+        }
+      }
+      return { contenido: null, llamadas: [{ id: `local_${Date.now()}`, nombre: forzada.nombre, argumentos }] };
+    }
+
+    if (ultimo.role === 'user') {
+      return {
+        contenido: null,
+        llamadas: [{ id: `local_${Date.now()}`, nombre: 'buscar_publicaciones', argumentos: { texto } }],
+      };
+    }
+
+    const resultados: PublicacionAsistente[] = ultimo.role === 'tool' ? JSON.parse(texto || '[]') : [];
+    if (!Array.isArray(resultados) || resultados.length === 0) {
+      return { contenido: 'No encontré publicaciones para eso. ¿Quieres intentar con otra búsqueda?', llamadas: [] };
+    }
+    return {
+      contenido: resultados.map((p) => `[#${p.id}] ${p.nombre_articulo} - $${p.precio}`).join('\n'),
+      llamadas: [],
+    };
+  },
+};
+
+const PROVEEDORES_LLM: Record<string, ProveedorLLM> = {
+  openai: proveedorOpenAI,
+  local: proveedorLLMLocal,
+};
+
+const proveedorLLM = PROVEEDORES_LLM[process.env.PROVEEDOR_LLM || (process.env.OPENAI_API_KEY ? 'openai' : 'local')];
+if (!proveedorLLM) {
+  throw new Error(`PROVEEDOR_LLM desconocido: ${process.env.PROVEEDOR_LLM}`);
+}
+
+// Columnas que ve el modelo de cada publicación (sin datos del vendedor)
+interface PublicacionAsistente {
+  id: number;
+  nombre_articulo: string;
+  descripcion: string | null;
+  precio: string;
+  tipo_bicicleta: string | null;
+  tipo_componente: string | null;
+  foto: string | null;
+}
+
+const SELECT_PUBLICACION_ASISTENTE = `
+  SELECT cv.ID_publicacion AS id, cv.nombre_articulo, cv.descripcion, cv.precio,
+         cv.tipo_bicicleta, cv.tipo_componente,
+         (SELECT COALESCE(f.url_tarjeta, f.url_foto) FROM com_ventas_fotos f
+          WHERE f.ID_publicacion = cv.ID_publicacion
+          ORDER BY f.orden NULLS LAST, f.id_foto LIMIT 1) AS foto
+  FROM com_ventas cv`;
+
+const HERRAMIENTAS_ASISTENTE: HerramientaLLM[] = [
+  {
+    nombre: 'buscar_publicaciones',
+    descripcion: 'Busca publicaciones activas por tipo de bicicleta, componente, texto libre y precio máximo.',
+    parametros: {
+      type: 'object',
+      properties: {
+        tipo_bicicleta: { type: 'string', description: 'Ej: ruta, montaña, urbana' },
+        tipo_componente: { type: 'string', description: 'Ej: frenos, llantas, pedales' },
+        texto: { type: 'string', description: 'Palabras clave del artículo' },
+        precio_max: { type: 'number' },
+      },
+    },
+  },
+  {
+    nombre: 'ver_carrito',
+    descripcion: 'Devuelve los artículos que el usuario tiene en su carrito.',
+    parametros: { type: 'object', properties: {} },
+  },
+  {
+    nombre: 'ver_publicacion',
+    descripcion: 'Devuelve el detalle de una publicación por su ID.',
+    parametros: {
+      type: 'object',
+      properties: { id_publicacion: { type: 'integer' } },
+      required: ['id_publicacion'],
+    },
+  },
+];
+
+// Categoría pedida por el modelo → IDs de la categoría y sus subcategorías (null si no filtró)
+async function subarbolCategoriaAsistente(tipo: TipoCategoria, valor: unknown) {
+  if (typeof valor !== 'string' || !valor.trim()) return null;
+  const categoria = await resolverCategoria(tipo, valor);
+  if (!categoria) {
+    throw new Error(`"${valor}" no es una categoría de ${tipo}; busca sin ese filtro o usa texto`);
+  }
+  return idsSubarbolCategoria(categoria.id_categoria);
+}
+
+// Ejecutar una herramienta con los datos del marketplace; siempre devuelve un arreglo de publicaciones
+async function ejecutarHerramientaAsistente(
+  nombre: string,
+  argumentos: Record<string, unknown>,
+  ID_usuario: number
+): Promise<PublicacionAsistente[]> {
+  switch (nombre) {
+    case 'buscar_publicaciones': {
+      const texto = typeof argumentos.texto === 'string' && argumentos.texto.trim() ? argumentos.texto.trim() : null;
+      const precioMax = Number(argumentos.precio_max);
+      const result = await pool.query<PublicacionAsistente>(
+        `${SELECT_PUBLICACION_ASISTENTE}
+         WHERE cv.estado = 'activa'
+           AND ($1::int[] IS NULL OR cv.ID_tipo_bicicleta = ANY($1))
+           AND ($2::int[] IS NULL OR cv.ID_tipo_componente = ANY($2))
+           AND ($3::numeric IS NULL OR cv.precio <= $3)
+           AND ($4::text IS NULL OR ${DOCUMENTO_BUSQUEDA} @@ plainto_tsquery('spanish', busqueda_unaccent($4)))
+         ORDER BY ${texto ? `ts_rank(${DOCUMENTO_BUSQUEDA}, plainto_tsquery('spanish', busqueda_unaccent($4))) DESC,` : ''}
+                  cv.ID_publicacion DESC
+         LIMIT ${LIMITE_RESULTADOS_ASISTENTE}`,
+        [
+          await subarbolCategoriaAsistente('bicicleta', argumentos.tipo_bicicleta),
+          await subarbolCategoriaAsistente('componente', argumentos.tipo_componente),
+          argumentos.precio_max != null && Number.isFinite(precioMax) ? precioMax : null,
+          texto,
+        ]
+      );
+      return result.rows;
+    }
+    case 'ver_carrito': {
+      const result = await pool.query<PublicacionAsistente>(
+        `${SELECT_PUBLICACION_ASISTENTE}
+         JOIN carrito c ON c.ID_publicacion = cv.ID_publicacion
+         WHERE c.ID_usuario = $1`,
+        [ID_usuario]
+      );
+      return result.rows;
+    }
+    case 'ver_publicacion': {
+      const idPublicacion = Number(argumentos.id_publicacion);
+      if (!Number.isSafeInteger(idPublicacion)) {
+        throw new Error('id_publicacion debe ser un entero');
+      }
+      const result = await pool.query<PublicacionAsistente>(
+        `${SELECT_PUBLICACION_ASISTENTE} WHERE cv.ID_publicacion = $1 AND cv.estado = 'activa'`,
+        [idPublicacion]
+      );
+      return result.rows;
+    }
+    default:
+      throw new Error(`Herramienta desconocida: ${nombre}`);
+  }
+}
+
+// Mensajes enviados al asistente por usuario en la última hora (cada uno cuesta llamadas al modelo).
+// Se cuentan en usos_asistente y no en mensajes_asistente, porque el usuario puede borrar su historial;
+// los usos de más de una hora se borran al registrar el siguiente
+const registrarUsoAsistente = (ID_usuario: number) =>
+  conCandado(`asistente:${ID_usuario}`, async (client) => {
+    await client.query(
+      "DELETE FROM usos_asistente WHERE ID_usuario = $1 AND fecha <= now() - interval '1 hour'",
+      [ID_usuario]
+    );
+    const usos = await client.query(
+      'SELECT COUNT(*)::int AS total FROM usos_asistente WHERE ID_usuario = $1',
+      [ID_usuario]
+    );
+    if (usos.rows[0].total >= MAX_MENSAJES_ASISTENTE_HORA) return false;
+
+    await client.query('INSERT INTO usos_asistente (ID_usuario) VALUES ($1)', [ID_usuario]);
+    return true;
+  });
+
+// 📍 ENDPOINT: Chat con el asistente de compras (historial por usuario)
+app.post("/chat", autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const { message } = req.body;
+
+  if (!message || typeof message !== 'string') {
+    return res.status(400).json({ error: "El campo 'message' es requerido" });
+  }
+  if (message.length > LONGITUD_MAXIMA_MENSAJE) {
+    return res.status(400).json({ error: `El mensaje supera ${LONGITUD_MAXIMA_MENSAJE} caracteres` });
+  }
+
+  try {
+    if (!(await registrarUsoAsistente(ID_usuario))) {
+      return res.status(429).json({ error: "Demasiados mensajes al asistente, intenta más tarde" });
+    }
+
+    const historial = await pool.query<{ rol: 'user' | 'assistant'; contenido: string }>(
+      `SELECT rol, contenido FROM (
+         SELECT ID_mensaje, rol, contenido FROM mensajes_asistente
+         WHERE ID_usuario = $1 ORDER BY ID_mensaje DESC LIMIT $2
+       ) h ORDER BY ID_mensaje`,
+      [ID_usuario, MAX_HISTORIAL_ASISTENTE]
+    );
+
+    const mensajes: MensajeLLM[] = [
+      { role: 'system', content: PROMPT_ASISTENTE },
+      ...historial.rows.map((m) => ({ role: m.rol, content: m.contenido })),
+      { role: 'user', content: message },
+    ];
+
+    // Publicaciones reales que devolvieron las herramientas, para validar los IDs citados
+    const vistas = new Map<number, PublicacionAsistente>();
+    let respuesta = await proveedorLLM.completar(mensajes, HERRAMIENTAS_ASISTENTE);
+
+    for (let ronda = 0; respuesta.llamadas.length > 0 && ronda < MAX_RONDAS_HERRAMIENTAS; ronda++) {
+      mensajes.push({
+        role: 'assistant',
+        content: respuesta.contenido,
+        tool_calls: respuesta.llamadas.map((l) => ({
+          id: l.id,
+          type: 'function',
+          function: { name: l.nombre, arguments: JSON.stringify(l.argumentos) },
+        })),
+      });
+
+      for (const llamada of respuesta.llamadas) {
+        let resultado: PublicacionAsistente[] | { error: string };
+        if (llamada.error) {
+          resultado = { error: llamada.error };
+        } else {
+          try {
+            const publicaciones = await ejecutarHerramientaAsistente(llamada.nombre, llamada.argumentos, ID_usuario);
+            publicaciones.forEach((p) => vistas.set(Number(p.id), p));
+            resultado = publicaciones;
+          } catch (error) {
+            resultado = { error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+        mensajes.push({ role: 'tool', tool_call_id: llamada.id, content: JSON.stringify(resultado) });
+      }
+
+      respuesta = await proveedorLLM.completar(mensajes, HERRAMIENTAS_ASISTENTE);
+    }
+
+    const reply = respuesta.contenido || 'No pude completar la respuesta, intenta de nuevo.';
+    const citadas = [...new Set([...reply.matchAll(/\[#(\d+)\]/g)].map((m) => Number(m[1])))]
+      .filter((id) => vistas.has(id));
+
+    // Pregunta y respuesta en una sola sentencia: el historial no queda con una sin la otra
+    await pool.query(
+      `INSERT INTO mensajes_asistente (ID_usuario, rol, contenido, publicaciones)
+       VALUES ($1, 'user', $2, '{}'), ($1, 'assistant', $3, $4)`,
+      [ID_usuario, message, reply, citadas]
+    );
+
+    res.json({ reply, publicaciones: citadas.map((id) => vistas.get(id)) });
+  } catch (error: any) {
+    console.error("Error en el asistente:", error.response?.data || error);
+    res.status(500).json({ error: "Error interno al conectar con el asistente" });
+  }
+});
+
+// 📍 ENDPOINT: Historial del asistente
+app.get("/chat/historial", autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT ID_mensaje AS id_mensaje, rol, contenido, publicaciones, fecha
+       FROM mensajes_asistente WHERE ID_usuario = $1
+       ORDER BY ID_mensaje DESC LIMIT 100`,
+      [req.usuario!.ID_usuario]
+    );
+    res.json(result.rows.reverse());
+  } catch (error) {
+    console.error("❌ Error obteniendo historial del asistente:", error);
+    res.status(500).json({ error: "Error en el servidor" });
+  }
+});
+
+// 📍 ENDPOINT: Borrar el historial del asistente (empezar conversación nueva)
+app.delete("/chat/historial", autenticarUsuario, async (req: Request, res: Response) => {
+  try {
+    await pool.query('DELETE FROM mensajes_asistente WHERE ID_usuario = $1', [req.usuario!.ID_usuario]);
+    res.json({ mensaje: "Historial eliminado" });
+  } catch (error) {
+    console.error("❌ Error borrando historial del asistente:", error);
+    res.status(500).json({ error: "Error en el servidor" });
+  }
+});
+
+// ==================== SUGERENCIAS PARA PUBLICAR ====================
+const MAX_FOTOS_SUGERENCIA = 3;
+const TAMANO_FOTO_SUGERENCIA = 512;
+const MIN_COMPARABLES_PRECIO = 3;
+
+// Nombres de las categorías activas del catálogo, por tipo
+async function obtenerCategoriasCanonicas() {
+  const result = await pool.query(
+    'SELECT tipo, nombre FROM categorias WHERE activa ORDER BY orden, nombre'
+  );
+
+  return {
+    tipo_bicicleta: result.rows.filter((r) => r.tipo === 'bicicleta').map((r) => r.nombre as string),
+    tipo_componente: result.rows.filter((r) => r.tipo === 'componente').map((r) => r.nombre as string),
+  };
+}
+
+// Rango de precio de publicaciones comparables (activas o vendidas) de la misma categoría.
+// Primero se intenta con las que además coinciden con el título
+async function sugerirPrecio(titulo: string, tipoBicicleta: string | null, tipoComponente: string | null) {
+  const filtroBicicleta = tipoBicicleta ? await filtroCategoria('bicicleta', tipoBicicleta) : null;
+  const filtroComponente = tipoComponente ? await filtroCategoria('componente', tipoComponente) : null;
+
+  const consultar = (conTexto: boolean) => {
+    const { valores, param } = crearParametros();
+    const condiciones = ["cv.estado IN ('activa', 'vendida')", 'cv.precio > 0'];
+    if (filtroBicicleta) condiciones.push(filtroBicicleta(param));
+    if (filtroComponente) condiciones.push(filtroComponente(param));
+    if (conTexto) condiciones.push(`${DOCUMENTO_BUSQUEDA} @@ plainto_tsquery('spanish', busqueda_unaccent(${param(titulo)}))`);
+
+    return pool.query(
+      `SELECT COUNT(*)::int AS comparables,
+              ROUND(percentile_cont(0.25) WITHIN GROUP (ORDER BY cv.precio)) AS minimo,
+              ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY cv.precio)) AS sugerido,
+              ROUND(percentile_cont(0.75) WITHIN GROUP (ORDER BY cv.precio)) AS maximo
+       FROM com_ventas cv
+       WHERE ${condiciones.join(' AND ')}`,
+      valores
+    );
+  };
+
+  let result = await consultar(true);
+  if (result.rows[0].comparables < MIN_COMPARABLES_PRECIO) result = await consultar(false);
+
+  const precio = result.rows[0];
+  if (precio.comparables === 0) return null;
+  return {
+    sugerido: Number(precio.sugerido),
+    minimo: Number(precio.minimo),
+    maximo: Number(precio.maximo),
+    comparables: precio.comparables,
+  };
+}
+
+// 📍 ENDPOINT: Sugerir descripción, categorías y precio para un borrador.
+// Body: { titulo, descripcion?, fotos?: [data URL o clave de /subidas] }. No consume las subidas
+app.post('/publicaciones/sugerencia', autenticarUsuario, async (req: Request, res: Response) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const titulo = typeof req.body.titulo === 'string' ? req.body.titulo.trim() : '';
+  const descripcion = typeof req.body.descripcion === 'string' ? req.body.descripcion.trim() : '';
+  const fotos: unknown[] = Array.isArray(req.body.fotos) ? req.body.fotos.slice(0, MAX_FOTOS_SUGERENCIA) : [];
+
+  if (!titulo) {
+    return res.status(400).json({ error: 'El título es obligatorio' });
+  }
+
+  try {
+    // Fotos reducidas a JPEG pequeño para el modelo
+    const imagenes: ParteMensajeLLM[] = [];
+    for (const foto of fotos) {
+      const { buffer } = await obtenerFotoEntrada(foto, ID_usuario, 'publicacion');
+      let reducida: Buffer;
+      try {
+        reducida = await sharp(buffer, { limitInputPixels: MAX_PIXELES_FOTO })
+          .rotate()
+          .resize(TAMANO_FOTO_SUGERENCIA, TAMANO_FOTO_SUGERENCIA, { fit: 'inside' })
+          .jpeg({ quality: 70 })
+          .toBuffer();
+      } catch (error) {
+        console.error('❌ Error procesando imagen:', error);
+        throw new FotoInvalidaError('La imagen está dañada o es demasiado grande');
+      }
+      imagenes.push({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${reducida.toString('base64')}` } });
+    }
+
+    const categorias = await obtenerCategoriasCanonicas();
+    const herramienta: HerramientaLLM = {
+      nombre: 'sugerir_publicacion',
+      descripcion: 'Devuelve la descripción y las categorías sugeridas para la publicación.',
+      parametros: {
+        type: 'object',
+        properties: {
+          descripcion: { type: 'string', description: 'Descripción en español de 2 a 4 frases: estado, compatibilidad y detalles visibles' },
+          tipo_bicicleta: { type: ['string', 'null'], enum: [...categorias.tipo_bicicleta, null] },
+          tipo_componente: { type: ['string', 'null'], enum: [...categorias.tipo_componente, null] },
+        },
+        required: ['descripcion', 'tipo_bicicleta', 'tipo_componente'],
+      },
+    };
+
+    const respuesta = await proveedorLLM.completar(
+      [
+        {
+          role: 'system',
+          content: 'Ayudas a vendedores de Arturo Ruedas a publicar repuestos y bicicletas. ' +
+            'Describe solo lo que se ve o se dice; no inventes marcas ni medidas. ' +
+            'Elige categorías únicamente de las listas permitidas o null si ninguna aplica.',
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: `Título: ${titulo}${descripcion ? `\nDescripción del vendedor: ${descripcion}` : ''}` },
+            ...imagenes,
+          ],
+        },
+      ],
+      [herramienta],
+      { herramientaForzada: herramienta.nombre }
+    );
+
+    const sugerencia = respuesta.llamadas[0]?.argumentos || {};
+    // Solo se aceptan valores de las listas, aunque el modelo responda otra cosa
+    const canonico = (lista: string[], valor: unknown) =>
+      typeof valor === 'string' ? lista.find((v) => v.toLowerCase() === valor.toLowerCase()) ?? null : null;
+    const tipoBicicleta = canonico(categorias.tipo_bicicleta, sugerencia.tipo_bicicleta);
+    const tipoComponente = canonico(categorias.tipo_componente, sugerencia.tipo_componente);
+
+    res.json({
+      descripcion: typeof sugerencia.descripcion === 'string' && sugerencia.descripcion.trim()
+        ? sugerencia.descripcion.trim()
+        : descripcion || null,
+      tipo_bicicleta: tipoBicicleta,
+      tipo_componente: tipoComponente,
+      precio: await sugerirPrecio(titulo, tipoBicicleta, tipoComponente),
+    });
   } catch (error: any) {
-    console.error("Error al llamar a OpenAI:", error.response?.data || error);
-    res.status(500).json({ error: "Error interno al conectar con OpenAI" });
+    if (error instanceof FotoInvalidaError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('❌ Error generando sugerencia:', error.response?.data || error);
+    res.status(500).json({ error: 'Error interno al generar la sugerencia' });
   }
 });
 
@@ -973,6 +6272,10 @@ app.get("/publicaciones", async (req: Request, res: Response) => {
   }
 
   try {
+    const { valores, param } = crearParametros();
+    const condicionBicicleta = (await filtroCategoria('bicicleta', tipo))(param);
+    const condicionComponente = (await filtroCategoria('componente', componente))(param);
+
     const result = await pool.query(
       `SELECT 
         cv.ID_publicacion AS id,
@@ -981,26 +6284,33 @@ app.get("/publicaciones", async (req: Request, res: Response) => {
         cv.precio,
         cv.tipo_bicicleta,
         cv.tipo_componente,
+        cv.ID_tipo_bicicleta AS id_tipo_bicicleta,
+        cv.ID_tipo_componente AS id_tipo_componente,
         cv.ID_usuario AS id_vendedor,
         u.nombre AS nombre_vendedor,
-        u.telefono,
+        CASE WHEN u.ocultar_telefono THEN NULL ELSE u.telefono END AS telefono,
+        u.ocultar_telefono AS solo_chat,
         u.foto,
+        COALESCE(cal.promedio, 0) AS calificacion_vendedor,
+        COALESCE(cal.total, 0) AS total_resenas_vendedor,
         -- Todas las fotos
         COALESCE(
-          json_agg(cvf.url_foto) FILTER (WHERE cvf.url_foto IS NOT NULL), '[]'
+          json_agg(${fotoVariantesSQL('cvf')} ORDER BY cvf.orden NULLS LAST, cvf.id_foto) FILTER (WHERE cvf.url_foto IS NOT NULL), '[]'
         ) AS fotos,
         -- Primera foto (para compatibilidad con tu frontend actual)
         COALESCE(
-          (ARRAY_AGG(cvf.url_foto ORDER BY cvf.id_foto ASC))[1], NULL
+          (ARRAY_AGG(COALESCE(cvf.url_tarjeta, cvf.url_foto) ORDER BY cvf.orden NULLS LAST, cvf.id_foto ASC))[1], NULL
         )
       FROM com_ventas cv
       JOIN usuario u ON cv.ID_usuario = u.ID_usuario
+      LEFT JOIN calificaciones_vendedor cal ON cal.ID_vendedor = cv.ID_usuario
       LEFT JOIN com_ventas_fotos cvf ON cv.ID_publicacion = cvf.ID_publicacion
-      WHERE LOWER(cv.tipo_bicicleta) = LOWER($1)
-        AND LOWER(cv.tipo_componente) = LOWER($2)
-      GROUP BY cv.ID_publicacion, u.nombre, u.telefono, u.foto, cv.nombre_Articulo, cv.descripcion, cv.precio, cv.tipo_bicicleta,cv.ID_usuario, cv.tipo_componente
+      WHERE ${condicionBicicleta}
+        AND ${condicionComponente}
+        AND cv.estado = 'activa'
+      GROUP BY cv.ID_publicacion, u.nombre, u.telefono, u.ocultar_telefono, u.foto, cal.promedio, cal.total, cv.nombre_Articulo, cv.descripcion, cv.precio, cv.tipo_bicicleta,cv.ID_usuario, cv.tipo_componente
       ORDER BY cv.ID_publicacion DESC`,
-      [tipo, componente]
+      valores
     );
 
     res.json(result.rows);
@@ -1011,58 +6321,267 @@ app.get("/publicaciones", async (req: Request, res: Response) => {
 });
 
 
-//informacion del usuario
+//informacion privada del usuario autenticado
+app.get("/usuario/me", autenticarUsuario, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT u.ID_usuario AS id_usuario, u.nombre, u.correo, u.telefono, u.foto, u.foto_miniatura,
+              u.ocultar_telefono, u.fecha_registro AS miembro_desde,
+              cc.correo_nuevo AS correo_pendiente
+       FROM usuario u
+       LEFT JOIN cambios_correo cc ON cc.ID_usuario = u.ID_usuario AND cc.expira_en > now()
+       WHERE u.ID_usuario = $1`,
+      [req.usuario!.ID_usuario]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Usuario no encontrado" });
+    }
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Error al obtener usuario" });
+  }
+});
+
+//perfil publico del usuario (vendedor)
 app.get("/usuario/:id", async (req, res) => {
-  const { id } = req.params;
-  const result = await pool.query("SELECT * FROM usuario WHERE ID_usuario = $1", [id]);
-  if (result.rows.length === 0) {
-    return res.status(404).json({ error: "Usuario no encontrado" });
+  try {
+    const perfil = await obtenerPerfilPublico(Number(req.params.id));
+    if (!perfil) {
+      return res.status(404).json({ error: "Usuario no encontrado" });
+    }
+    res.json(perfil);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Error al obtener usuario" });
   }
-  res.json(result.rows[0]);
 });
 
-//editar informacion del usuario
-app.put("/EditarUsuario/:id", async (req, res) => {
+// ==================== CAMBIO DE CORREO ====================
+const CAMBIO_CORREO_DURACION_MINUTOS = 30;
+
+//editar informacion del usuario. El correo nuevo no se aplica hasta verificarlo
+app.put("/EditarUsuario/:id", autenticarUsuario, async (req, res) => {
   const { id } = req.params;
   const { nombre, correo, telefono } = req.body;
 
+  if (!esPropietario(req, id)) {
+    return res.status(403).json({ error: "No autorizado" });
+  }
+
+  const correoNuevo = typeof correo === 'string' ? correo.trim() : '';
+
+  // Correo duplicado y límite se revisan antes de guardar nada para no aplicar la edición a medias
+  let cambiaCorreo = false;
   try {
-    const result = await pool.query(
-      "UPDATE usuario SET nombre=$1, correo=$2, telefono=$3 WHERE ID_usuario=$4 RETURNING *",
-      [nombre, correo, telefono, id]
+    const actualRes = await pool.query('SELECT correo FROM usuario WHERE ID_usuario = $1', [id]);
+    if (actualRes.rows.length === 0) {
+      return res.status(404).json({ error: "Usuario no encontrado" });
+    }
+    cambiaCorreo = !!correoNuevo && correoNuevo !== actualRes.rows[0].correo;
+
+    if (cambiaCorreo) {
+      const existente = await pool.query('SELECT 1 FROM usuario WHERE correo = $1', [correoNuevo]);
+      if (existente.rows.length > 0) {
+        return res.status(409).json({ error: "El correo ya está registrado" });
+      }
+      if (!(await registrarSolicitudCorreo('cambio_correo', correoNuevo, req.ip))) {
+        return res.status(429).json({ error: "Demasiadas solicitudes de cambio de correo, intenta más tarde" });
+      }
+    }
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: "Error al actualizar usuario" });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `UPDATE usuario SET nombre=$1, telefono=$2 WHERE ID_usuario=$3
+       RETURNING ID_usuario AS id_usuario, nombre, correo, telefono, foto, foto_miniatura, ocultar_telefono`,
+      [nombre, telefono, id]
     );
-    res.json(result.rows[0]);
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: "Usuario no encontrado" });
+    }
+
+    const usuario = result.rows[0];
+
+    if (!cambiaCorreo) {
+      await client.query('COMMIT');
+      return res.json(usuario);
+    }
+
+    const codigo = crypto.randomInt(100000, 1000000).toString();
+    await client.query(
+      `INSERT INTO cambios_correo (ID_usuario, correo_nuevo, codigo_hash, expira_en)
+       VALUES ($1, $2, $3, now() + make_interval(mins => $4))
+       ON CONFLICT (ID_usuario) DO UPDATE
+       SET correo_nuevo = EXCLUDED.correo_nuevo, codigo_hash = EXCLUDED.codigo_hash,
+           intentos = 0, expira_en = EXCLUDED.expira_en, fecha_creacion = now()`,
+      [id, correoNuevo, hashearCodigoReset(correoNuevo, codigo), CAMBIO_CORREO_DURACION_MINUTOS]
+    );
+
+    // Si el correo no sale no se guarda nada: el cliente no queda esperando un código que no llegó
+    let envio;
+    try {
+      envio = await resend.emails.send({
+        from: "Soporte Ruedas <onboarding@resend.dev>",
+        to: correoNuevo,
+        subject: "Confirma tu nuevo correo",
+        text: `Tu código de verificación es: ${codigo}. Vence en ${CAMBIO_CORREO_DURACION_MINUTOS} minutos.`,
+      });
+    } catch (error) {
+      envio = { error };
+    }
+    if (envio.error) {
+      await client.query('ROLLBACK');
+      console.error("❌ Error enviando código de cambio de correo:", envio.error);
+      return res.status(502).json({ error: "No se pudo enviar el código, intenta más tarde" });
+    }
+
+    await client.query('COMMIT');
+    res.json({ ...usuario, correo_pendiente: correoNuevo });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error(error);
     res.status(500).json({ error: "Error al actualizar usuario" });
+  } finally {
+    client.release();
+  }
+});
+
+//confirmar el cambio de correo con el código enviado al correo nuevo
+app.post("/usuario/correo/verificar", autenticarUsuario, async (req, res) => {
+  const ID_usuario = req.usuario!.ID_usuario;
+  const { codigo } = req.body;
+
+  if (!codigo) {
+    return res.status(400).json({ error: "El código es obligatorio" });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `SELECT correo_nuevo, codigo_hash, intentos FROM cambios_correo
+       WHERE ID_usuario = $1 AND expira_en > now()
+       FOR UPDATE`,
+      [ID_usuario]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: "Código incorrecto o expirado" });
+    }
+
+    const cambio = result.rows[0];
+
+    if (cambio.intentos >= RESET_MAX_INTENTOS) {
+      await client.query('ROLLBACK');
+      return res.status(429).json({ error: "Demasiados intentos, vuelve a solicitar el cambio" });
+    }
+
+    const esperado = Buffer.from(cambio.codigo_hash, 'hex');
+    const recibido = Buffer.from(hashearCodigoReset(cambio.correo_nuevo, String(codigo)), 'hex');
+
+    if (!crypto.timingSafeEqual(esperado, recibido)) {
+      await client.query(
+        "UPDATE cambios_correo SET intentos = intentos + 1 WHERE ID_usuario = $1",
+        [ID_usuario]
+      );
+      await client.query('COMMIT');
+      return res.status(400).json({ error: "Código incorrecto o expirado" });
+    }
+
+    // El correo pudo quedar tomado por otra cuenta mientras se verificaba
+    const existente = await client.query(
+      'SELECT 1 FROM usuario WHERE correo = $1 AND ID_usuario <> $2',
+      [cambio.correo_nuevo, ID_usuario]
+    );
+    if (existente.rows.length > 0) {
+      await client.query('DELETE FROM cambios_correo WHERE ID_usuario = $1', [ID_usuario]);
+      await client.query('COMMIT');
+      return res.status(409).json({ error: "El correo ya está registrado" });
+    }
+
+    await client.query('UPDATE usuario SET correo = $1 WHERE ID_usuario = $2', [cambio.correo_nuevo, ID_usuario]);
+    await client.query('DELETE FROM cambios_correo WHERE ID_usuario = $1', [ID_usuario]);
+    const tokens = await generarTokens({ ID_usuario, correo: cambio.correo_nuevo }, client);
+    await client.query('COMMIT');
+
+    res.json({
+      mensaje: "Correo actualizado correctamente",
+      correo: cambio.correo_nuevo,
+      ...tokens
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ error: "Error al verificar el correo" });
+  } finally {
+    client.release();
   }
 });
 
 //cambiar contraseña
-app.put("/CambiarContrasena/:id", async (req, res) => {
+app.put("/CambiarContrasena/:id", autenticarUsuario, async (req, res) => {
   const { id } = req.params;
   const { passwordActual, passwordNueva } = req.body;
 
+  if (!esPropietario(req, id)) {
+    return res.status(403).json({ error: "No autorizado" });
+  }
+
+  if (typeof passwordActual !== 'string' || !passwordActual) {
+    return res.status(400).json({ error: "La contraseña actual es obligatoria" });
+  }
+  if (typeof passwordNueva !== 'string' || passwordNueva.length < LONGITUD_MINIMA_CONTRASENA) {
+    return res.status(400).json({ error: `La nueva contraseña debe tener al menos ${LONGITUD_MINIMA_CONTRASENA} caracteres` });
+  }
+
+  const client = await pool.connect();
+
   try {
+    await client.query('BEGIN');
+
     // Verificar contraseña actual
-    const result = await pool.query("SELECT contraseña FROM usuario WHERE ID_usuario=$1", [id]);
-    if (result.rows.length === 0) return res.status(404).json({ error: "Usuario no encontrado" });
+    const result = await client.query("SELECT contraseña FROM usuario WHERE ID_usuario=$1 FOR UPDATE", [id]);
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: "Usuario no encontrado" });
+    }
 
     const contraseñaGuardada = result.rows[0].contraseña;
 
+    const { valida } = await verificarContraseña(passwordActual, contraseñaGuardada);
 
-
-    if (passwordActual !== contraseñaGuardada) {
+    if (!valida) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ error: "Contraseña actual incorrecta" });
     }
 
-    // Actualizar con nueva contraseña
-    await pool.query("UPDATE usuario SET contraseña=$1 WHERE ID_usuario=$2", [passwordNueva, id]);
+    // Actualizar con nueva contraseña; las demás sesiones quedan cerradas y este dispositivo
+    // recibe tokens nuevos, todo o nada
+    await client.query("UPDATE usuario SET contraseña=$1 WHERE ID_usuario=$2", [await hashearContraseña(passwordNueva), id]);
+    await revocarTokensUsuario(client, Number(id));
+    const tokens = await generarTokens(req.usuario!, client);
+
+    await client.query('COMMIT');
 
-    res.json({ message: "Contraseña actualizada correctamente" });
+    res.json({ message: "Contraseña actualizada correctamente", ...tokens });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error(error);
     res.status(500).json({ error: "Error al cambiar la contraseña" });
+  } finally {
+    client.release();
   }
 });
 
@@ -1082,19 +6601,24 @@ app.get('/PublicacionesRelacionadasVendedor/:ID_usuario', async (req, res) => {
         cv.precio,
         cv.tipo_bicicleta,
         u.nombre AS nombre_vendedor,
-        u.telefono,
+        CASE WHEN u.ocultar_telefono THEN NULL ELSE u.telefono END AS telefono,
+        u.ocultar_telefono AS solo_chat,
         u.foto,
+        COALESCE(cal.promedio, 0) AS calificacion_vendedor,
+        COALESCE(cal.total, 0) AS total_resenas_vendedor,
         cv.ID_usuario AS id_vendedor,
         COALESCE(
-          json_agg(cvf.url_foto) FILTER (WHERE cvf.url_foto IS NOT NULL),
+          json_agg(${fotoVariantesSQL('cvf')} ORDER BY cvf.orden NULLS LAST, cvf.id_foto) FILTER (WHERE cvf.url_foto IS NOT NULL),
           '[]'
         ) AS fotos
       FROM com_ventas cv
       JOIN usuario u ON cv.ID_usuario = u.ID_usuario
+      LEFT JOIN calificaciones_vendedor cal ON cal.ID_vendedor = cv.ID_usuario
       LEFT JOIN com_ventas_fotos cvf ON cv.ID_publicacion = cvf.ID_publicacion
       WHERE cv.ID_usuario = $1
+        AND cv.estado = 'activa'
       GROUP BY cv.ID_publicacion, cv.nombre_Articulo, cv.descripcion, cv.precio, cv.tipo_bicicleta,
-               u.nombre, u.telefono, u.foto, cv.ID_usuario
+               u.nombre, u.telefono, u.ocultar_telefono, u.foto, cal.promedio, cal.total, cv.ID_usuario
       ORDER BY cv.ID_publicacion DESC;
       `,
       [ID_usuario]